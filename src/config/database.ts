@@ -11,12 +11,32 @@ export const connectDB = async (): Promise<void> => {
     
     console.log('✅ MongoDB connected successfully');
     console.log(`📊 Database: ${mongoose.connection.name}`);
+
+    if (!(await supportsTransactions())) {
+      console.warn(
+        '⚠️  MongoDB is standalone (no transactions): item moves use a copy-then-remove fallback'
+      );
+    }
   } catch (error) {
     console.error('❌ MongoDB connection failed:', error);
     process.exit(1); // Exit if database connection fails
   }
 };
 
+let transactions: boolean | null = null;
+
+/**
+ * Whether the server can run multi-document transactions (replica set or sharded cluster)
+ */
+export const supportsTransactions = async (): Promise<boolean> => {
+  if (transactions === null) {
+    const hello = await mongoose.connection.db!.admin().command({ hello: 1 });
+    transactions = Boolean(hello.setName) || hello.msg === 'isdbgrid';
+  }
+
+  return transactions;
+};
+
 /**
  * Disconnect from MongoDB
  */
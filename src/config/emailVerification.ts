@@ -0,0 +1,50 @@
+/**
+ * Things an account may need a verified email for
+ */
+export type VerifiedAction =
+  | 'login'
+  | 'createWishlist'
+  | 'invite'
+  | 'acceptInvite'
+  | 'autoJoinInvites'
+  | 'notifications';
+
+const ALL_ACTIONS: VerifiedAction[] = [
+  'login',
+  'createWishlist',
+  'invite',
+  'acceptInvite',
+  'autoJoinInvites',
+  'notifications',
+];
+
+// By default unverified users can log in and make their own lists, nothing more
+const DEFAULT_UNVERIFIED_ACTIONS: VerifiedAction[] = ['login', 'createWishlist'];
+
+/**
+ * Read UNVERIFIED_ALLOWED_ACTIONS (comma separated, empty = nothing allowed)
+ */
+const loadUnverifiedActions = (): VerifiedAction[] => {
+  const raw = process.env.UNVERIFIED_ALLOWED_ACTIONS;
+
+  if (raw === undefined) return DEFAULT_UNVERIFIED_ACTIONS;
+
+  return raw
+    .split(',')
+    .map((action) => action.trim())
+    .filter((action): action is VerifiedAction =>
+      ALL_ACTIONS.includes(action as VerifiedAction)
+    );
+};
+
+const UNVERIFIED_ACTIONS = loadUnverifiedActions();
+
+/**
+ * Check if a user with the given verification state may do something
+ */
+export const isActionAllowed = (
+  emailVerified: boolean,
+  action: VerifiedAction
+): boolean => {
+  return emailVerified || UNVERIFIED_ACTIONS.includes(action);
+};
@@ -0,0 +1,92 @@
+import { ITemplateItem } from '../models/Template';
+import { OccasionType } from '../models/Wishlist';
+
+/**
+ * A template that ships with the app (read-only, same for everyone)
+ */
+export interface SystemTemplate {
+  key: string; // used as the template ID, always starts with "system-"
+  name: string;
+  description: string;
+  type: 'private' | 'collaborative';
+  occasionType: OccasionType | null;
+  items: Partial<ITemplateItem>[];
+}
+
+export const SYSTEM_TEMPLATE_PREFIX = 'system-';
+
+/**
+ * Starter lists for the usual occasions - no prices, links or currencies,
+ * so they work anywhere
+ */
+export const SYSTEM_TEMPLATES: SystemTemplate[] = [
+  {
+    key: 'system-christmas',
+    name: 'Christmas',
+    description: 'The classics for under the tree',
+    type: 'private',
+    occasionType: 'holiday',
+    items: [
+      { name: 'Cozy socks', priority: 'nice-to-have' },
+      { name: 'Book', description: 'Author or genre you love' },
+      { name: 'Board game' },
+      { name: 'Scented candle', priority: 'nice-to-have' },
+      { name: 'Gift card', quantity: null },
+    ],
+  },
+  {
+    key: 'system-baby-shower',
+    name: 'Baby shower',
+    description: 'Everything a new family needs in the first months',
+    type: 'collaborative',
+    occasionType: 'baby',
+    items: [
+      { name: 'Stroller', priority: 'must-have' },
+      { name: 'Car seat', priority: 'must-have' },
+      { name: 'Baby monitor', priority: 'high' },
+      { name: 'Onesies (0-3 months)', quantity: 6 },
+      { name: 'Swaddle blankets', quantity: 3 },
+      { name: 'Diapers (newborn)', quantity: null },
+      { name: 'Baby bathtub' },
+    ],
+  },
+  {
+    key: 'system-birthday',
+    name: 'Birthday',
+    description: 'A simple birthday list to fill in',
+    type: 'private',
+    occasionType: 'birthday',
+    items: [
+      { name: 'Something to read' },
+      { name: 'Something to wear' },
+      { name: 'An experience', description: 'Concert, class, trip...' },
+    ],
+  },
+  {
+    key: 'system-wedding',
+    name: 'Wedding registry',
+    description: 'Home basics for the happy couple',
+    type: 'collaborative',
+    occasionType: 'wedding',
+    items: [
+      { name: 'Dinnerware set', priority: 'high' },
+      { name: 'Bath towels', quantity: 4 },
+      { name: 'Bed linen', quantity: 2 },
+      { name: 'Stand mixer' },
+      { name: 'Honeymoon fund', quantity: null },
+    ],
+  },
+  {
+    key: 'system-housewarming',
+    name: 'Housewarming',
+    description: 'For a new place',
+    type: 'private',
+    occasionType: null,
+    items: [
+      { name: 'Houseplant', quantity: null },
+      { name: 'Toolkit' },
+      { name: 'Doormat', priority: 'nice-to-have' },
+      { name: 'Kitchen knives', priority: 'high' },
+    ],
+  },
+];
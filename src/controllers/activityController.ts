@@ -0,0 +1,58 @@
+import { Response } from 'express';
+import Activity from '../models/Activity';
+import { WishlistRequest } from '../middleware/wishlistAccess';
+import { redactActivity, PERSONAL_ACTIVITY } from '../utils/activity';
+import { ActivityQuery } from '../schemas/wishlist';
+
+/**
+ * Get the activity log of a wishlist
+ * GET /api/wishlists/:id/activity?page=1&limit=20&actor=<userId>&action=item.updated
+ */
+export const getWishlistActivity = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const isOwner = req.wishlistRole === 'owner';
+
+    const { page = 1, limit = 20, actor, action } = req.query as ActivityQuery;
+
+    const filter: Record<string, any> = { wishlist: wishlist._id };
+
+    if (actor) filter.actor = actor;
+
+    // Logs written before price alerts were kept out still hold some
+    filter.action = action
+      ? { $eq: action, $nin: PERSONAL_ACTIVITY }
+      : { $nin: PERSONAL_ACTIVITY };
+
+    // Claims and purchases stay hidden from the owner
+    if (isOwner) filter.surprise = false;
+
+    const [activities, total] = await Promise.all([
+      Activity.find(filter)
+        .populate('actor', 'username')
+        .populate('targetUser', 'username')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Activity.countDocuments(filter),
+    ]);
+
+    res.json({
+      success: true,
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+      activities: isOwner ? activities.map(redactActivity) : activities,
+    });
+  } catch (error: any) {
+    console.error('Error fetching activity:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching activity',
+    });
+  }
+};
@@ -1,7 +1,30 @@
 import { Request, Response } from 'express';
 import User from '../models/User';
-import { generateToken } from '../utils/jwt';
+import Session from '../models/Session';
 import { AuthRequest } from '../middleware/auth';
+import { resolveInvitesForNewUser } from '../utils/invitations';
+import { randomToken, hashToken } from '../utils/tokens';
+import { sendMail } from '../utils/mailer';
+import { isActionAllowed } from '../config/emailVerification';
+import { sendVerificationEmail, trySendVerificationEmail } from '../utils/emailVerification';
+import {
+  RegisterBody,
+  LoginBody,
+  RefreshBody,
+  ForgotPasswordBody,
+  ResetPasswordBody,
+  VerifyEmailBody,
+  ChangePasswordBody,
+  PreferencesBody,
+} from '../schemas/auth';
+import {
+  createSession,
+  rotateRefreshToken,
+  revokeSession as endSession,
+  revokeAllSessions,
+} from '../utils/sessions';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
 
 /**
  * Register new user
@@ -9,16 +32,7 @@ import { AuthRequest } from '../middleware/auth';
  */
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { username, email, password, age } = req.body;
-
-    // Validation
-    if (!username || !email || !password) {
-      res.status(400).json({
-        success: false,
-        message: 'Please provide username, email, and password',
-      });
-      return;
-    }
+    const { username, email, password, age } = req.body as RegisterBody;
 
     // Check if user already exists
     const existingUser = await User.findOne({
@@ -38,20 +52,39 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       username,
       email,
       password,
-      age: age || null,
+      age: age ?? null,
     });
 
-    // Generate token
-    const token = generateToken(user._id.toString());
+    // The account exists now - a mail failure mustn't turn this into an error
+    // (a retry would only hear "already exists"); they can ask for a new link
+    const verificationEmailSent = await trySendVerificationEmail(user);
+
+    // Join any wishlists this email was invited to (if the policy trusts
+    // unverified emails - otherwise this happens on verification)
+    const joinedWishlists = isActionAllowed(false, 'autoJoinInvites')
+      ? await resolveInvitesForNewUser(user)
+      : 0;
+
+    // Start a session (access + refresh token), unless the policy wants the email verified first
+    const session = isActionAllowed(false, 'login')
+      ? await createSession(user._id.toString(), req)
+      : null;
 
     res.status(201).json({
       success: true,
-      message: 'User registered successfully',
-      token,
+      message: verificationEmailSent
+        ? session
+          ? 'User registered successfully'
+          : 'User registered - verify your email address, then log in'
+        : 'User registered, but the verification email could not be sent - request a new one',
+      ...session,
+      joinedWishlists,
+      verificationEmailSent,
       user: {
         _id: user._id,
         username: user.username,
         email: user.email,
+        emailVerified: user.emailVerified,
         age: user.age,
       },
     });
@@ -70,16 +103,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
  */
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email, password } = req.body;
-
-    // Validation
-    if (!email || !password) {
-      res.status(400).json({
-        success: false,
-        message: 'Please provide email and password',
-      });
-      return;
-    }
+    const { email, password } = req.body as LoginBody;
 
     // Find user (include password this time)
     const user = await User.findOne({ email }).select('+password');
@@ -103,17 +127,27 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Generate token
-    const token = generateToken(user._id.toString());
+    if (!isActionAllowed(user.emailVerified, 'login')) {
+      res.status(403).json({
+        success: false,
+        message: 'Please verify your email address before logging in',
+      });
+      return;
+    }
+
+    // Start a session (access + refresh token)
+    const { token, refreshToken } = await createSession(user._id.toString(), req);
 
     res.json({
       success: true,
       message: 'Login successful',
       token,
+      refreshToken,
       user: {
         _id: user._id,
         username: user.username,
         email: user.email,
+        emailVerified: user.emailVerified,
         age: user.age,
       },
     });
@@ -149,6 +183,8 @@ export const getMe = async (req: AuthRequest, res: Response): Promise<void> => {
         _id: user._id,
         username: user.username,
         email: user.email,
+        emailVerified: user.emailVerified,
+        preferredCurrency: user.preferredCurrency,
         age: user.age,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -161,4 +197,471 @@ export const getMe = async (req: AuthRequest, res: Response): Promise<void> => {
       message: error.message || 'Error fetching user data',
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Update my preferences (display currency)
+ * PUT /api/auth/preferences
+ */
+export const updatePreferences = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { preferredCurrency } = req.body as PreferencesBody;
+
+    const user = await User.findById(req.user?._id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    if (preferredCurrency !== undefined) user.preferredCurrency = preferredCurrency;
+
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Preferences updated!',
+      preferences: {
+        preferredCurrency: user.preferredCurrency,
+      },
+    });
+  } catch (error: any) {
+    console.error('Update preferences error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error updating preferences',
+    });
+  }
+};
+
+// ==========================================
+// EMAIL VERIFICATION
+// ==========================================
+
+/**
+ * Verify email with a token from the email
+ * POST /api/auth/verify-email
+ */
+export const verifyEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body as VerifyEmailBody;
+
+    const user = await User.findOne({
+      emailVerificationTokenHash: hashToken(token),
+      emailVerificationExpiresAt: { $gt: new Date() },
+    });
+
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid or expired verification token',
+      });
+      return;
+    }
+
+    user.emailVerified = true;
+    user.emailVerificationTokenHash = null;
+    user.emailVerificationExpiresAt = null;
+    await user.save();
+
+    // Now that we trust the email, pick up invitations sent to it
+    const joinedWishlists = await resolveInvitesForNewUser(user);
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+      joinedWishlists,
+    });
+  } catch (error: any) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error verifying email',
+    });
+  }
+};
+
+/**
+ * Send a new verification email
+ * POST /api/auth/resend-verification
+ */
+export const resendVerification = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?._id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    if (user.emailVerified) {
+      res.status(400).json({
+        success: false,
+        message: 'Email is already verified',
+      });
+      return;
+    }
+
+    await sendVerificationEmail(user);
+
+    res.json({
+      success: true,
+      message: `Verification email sent to ${user.email}`,
+    });
+  } catch (error: any) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error sending verification email',
+    });
+  }
+};
+
+// ==========================================
+// SESSIONS
+// ==========================================
+
+/**
+ * Exchange a refresh token for a new token pair
+ * POST /api/auth/refresh
+ */
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body as RefreshBody;
+
+    const result = await rotateRefreshToken(refreshToken);
+
+    if (result.status === 'reused') {
+      res.status(401).json({
+        success: false,
+        message: 'Refresh token was already used. Session revoked, please login again.',
+      });
+      return;
+    }
+
+    if (result.status === 'invalid') {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid or expired refresh token. Please login again.',
+      });
+      return;
+    }
+
+    // The email may have changed (and need verifying again) since login
+    const user = await User.findById(result.userId);
+
+    if (!user || !isActionAllowed(user.emailVerified, 'login')) {
+      res.status(403).json({
+        success: false,
+        message: 'Please verify your email address before logging in',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      token: result.tokens.token,
+      refreshToken: result.tokens.refreshToken,
+    });
+  } catch (error: any) {
+    console.error('Refresh error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error refreshing token',
+    });
+  }
+};
+
+/**
+ * Logout (end the current session)
+ * POST /api/auth/logout
+ */
+export const logout = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await endSession(req.sessionId!, 'logout');
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  } catch (error: any) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error logging out',
+    });
+  }
+};
+
+/**
+ * List my active sessions (devices)
+ * GET /api/auth/sessions
+ */
+export const getSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const sessions = await Session.find({
+      user: req.user?._id,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1 });
+
+    res.json({
+      success: true,
+      count: sessions.length,
+      sessions: sessions.map((session) => ({
+        _id: session._id,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === req.sessionId,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching sessions',
+    });
+  }
+};
+
+/**
+ * Revoke one of my sessions (sign out a device)
+ * DELETE /api/auth/sessions/:sessionId
+ */
+export const revokeSession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const session = await Session.findOne({
+      _id: req.params.sessionId,
+      user: req.user?._id,
+      revokedAt: null,
+    });
+
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        message: 'Session not found',
+      });
+      return;
+    }
+
+    await endSession(session._id.toString(), 'revoked');
+
+    res.json({
+      success: true,
+      message: 'Session revoked',
+    });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error revoking session',
+    });
+  }
+};
+
+/**
+ * Revoke all my sessions except the current one (sign out other devices)
+ * DELETE /api/auth/sessions
+ */
+export const revokeOtherSessions = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const revoked = await revokeAllSessions(req.user!._id, 'revoked', req.sessionId);
+
+    res.json({
+      success: true,
+      message: `Signed out of ${revoked} other session(s)`,
+      revoked,
+    });
+  } catch (error: any) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error revoking sessions',
+    });
+  }
+};
+
+
+// ==========================================
+// PASSWORDS
+// ==========================================
+
+// Reset links are valid for 60 minutes unless configured otherwise
+const RESET_TOKEN_EXPIRES_MINUTES = Number(process.env.RESET_TOKEN_EXPIRES_MINUTES) || 60;
+
+/**
+ * Request a password reset email
+ * POST /api/auth/forgot-password
+ */
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body as ForgotPasswordBody;
+
+    const user = await User.findOne({ email });
+
+    // Same answer either way so nobody can probe which emails are registered
+    if (user) {
+      const resetToken = randomToken(32);
+
+      user.passwordResetTokenHash = hashToken(resetToken);
+      user.passwordResetExpiresAt = new Date(
+        Date.now() + RESET_TOKEN_EXPIRES_MINUTES * 60 * 1000
+      );
+      await user.save();
+
+      // A failed send must not answer differently from an unknown email
+      try {
+        await sendMail({
+          to: user.email,
+          subject: 'Reset your Wishlist password',
+          text:
+            `Hi ${user.username},\n\n` +
+            `Reset your password here (valid for ${RESET_TOKEN_EXPIRES_MINUTES} minutes):\n` +
+            `${APP_URL}/reset-password?token=${resetToken}\n\n` +
+            `If you didn't ask for this, you can ignore this email.`,
+        });
+      } catch (error) {
+        console.error('Error sending password reset email:', error);
+      }
+    }
+
+    res.json({
+      success: true,
+      message: 'If that email is registered, a reset link is on its way',
+    });
+  } catch (error: any) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error requesting password reset',
+    });
+  }
+};
+
+/**
+ * Reset password with a token from the email
+ * POST /api/auth/reset-password
+ */
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, password } = req.body as ResetPasswordBody;
+
+    const user = await User.findOne({
+      passwordResetTokenHash: hashToken(token),
+      passwordResetExpiresAt: { $gt: new Date() },
+    });
+
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid or expired reset token',
+      });
+      return;
+    }
+
+    // Token is single-use
+    user.password = password;
+    user.passwordResetTokenHash = null;
+    user.passwordResetExpiresAt = null;
+    await user.save();
+
+    // Whoever had the old password is signed out everywhere
+    await revokeAllSessions(user._id.toString(), 'password');
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully. Please login.',
+    });
+  } catch (error: any) {
+    console.error('Reset password error:', error);
+
+    if (error.name === 'ValidationError') {
+      const messages = Object.values(error.errors).map((err: any) => err.message);
+      res.status(400).json({
+        success: false,
+        message: messages.join(', '),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error resetting password',
+    });
+  }
+};
+
+/**
+ * Change password (requires the current one)
+ * PUT /api/auth/change-password
+ */
+export const changePassword = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body as ChangePasswordBody;
+
+    const user = await User.findById(req.user?._id).select('+password');
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const isPasswordValid = await user.comparePassword(currentPassword);
+
+    if (!isPasswordValid) {
+      res.status(401).json({
+        success: false,
+        message: 'Current password is incorrect',
+      });
+      return;
+    }
+
+    user.password = newPassword;
+    await user.save();
+
+    // Keep this device, sign out the rest
+    await revokeAllSessions(user._id.toString(), 'password', req.sessionId);
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully',
+    });
+  } catch (error: any) {
+    console.error('Change password error:', error);
+
+    if (error.name === 'ValidationError') {
+      const messages = Object.values(error.errors).map((err: any) => err.message);
+      res.status(400).json({
+        success: false,
+        message: messages.join(', '),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error changing password',
+    });
+  }
+};
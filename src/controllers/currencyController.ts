@@ -0,0 +1,44 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { CURRENCY_CODES } from '../config/currencies';
+import { getExchangeRates, convertAmount } from '../utils/currency';
+import { ConvertQuery } from '../schemas/currency';
+
+/**
+ * Get the exchange rate table in use
+ * GET /api/exchange-rates
+ */
+export const getRates = async (req: AuthRequest, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    ...getExchangeRates(),
+    supportedCurrencies: CURRENCY_CODES,
+  });
+};
+
+/**
+ * Convert an amount between two currencies
+ * GET /api/exchange-rates/convert?amount=10&from=EUR&to=USD
+ */
+export const convert = async (req: AuthRequest, res: Response): Promise<void> => {
+  // Checked (and the codes upper-cased) by the route's schema
+  const { amount, from, to } = req.query as unknown as ConvertQuery;
+
+  const converted = convertAmount(amount, from, to);
+
+  if (converted === null) {
+    res.status(400).json({
+      success: false,
+      message: `No exchange rate between ${from} and ${to}`,
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    amount,
+    from,
+    to,
+    converted,
+  });
+};
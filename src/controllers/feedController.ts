@@ -0,0 +1,65 @@
+import { Response } from 'express';
+import Wishlist from '../models/Wishlist';
+import { AuthRequest } from '../middleware/auth';
+import { friendIdsOf } from '../utils/friends';
+import { listQueryFrom, findPage } from '../utils/pagination';
+import { sharedWishlistView } from '../utils/wishlistView';
+import { FeedQuery, FEED_LIST_OPTIONS } from '../schemas/wishlist';
+
+// Newest items shown per feed entry
+const RECENT_ITEMS = 3;
+
+/**
+ * Recently updated wishlists of my friends
+ * GET /api/feed?limit=20&cursor=
+ */
+export const getFeed = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const listQuery = listQueryFrom(req.query as FeedQuery, FEED_LIST_OPTIONS);
+
+    const friendIds = await friendIdsOf(req.user!._id);
+
+    const { docs: wishlists, pageInfo } = await findPage(
+      Wishlist,
+      {
+        owner: { $in: friendIds },
+        visibility: { $in: ['friends', 'public'] },
+        archivedAt: null,
+      },
+      listQuery,
+      (query) => query.populate('owner', 'username')
+    );
+
+    // Same redacted view as share links: friends aren't members
+    const feed = wishlists.map((wishlist) => {
+      const { items, ...view } = sharedWishlistView(wishlist);
+
+      return {
+        ...view,
+        occasion: wishlist.occasion
+          ? { type: wishlist.occasion.type, date: wishlist.occasion.date }
+          : null,
+        itemCount: items.length,
+        recentItems: [...items]
+          .sort((a: any, b: any) => b.createdAt - a.createdAt)
+          .slice(0, RECENT_ITEMS),
+      };
+    });
+
+    res.json({
+      success: true,
+      count: feed.length,
+      feed,
+      pagination: pageInfo,
+    });
+  } catch (error: any) {
+    console.error('Error fetching feed:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching feed',
+    });
+  }
+};
@@ -0,0 +1,508 @@
+import { Response } from 'express';
+import Friendship, { friendshipPair } from '../models/Friendship';
+import Block from '../models/Block';
+import User from '../models/User';
+import Wishlist from '../models/Wishlist';
+import Invitation from '../models/Invitation';
+import { AuthRequest } from '../middleware/auth';
+import { actorFrom, emitWishlistEvent } from '../utils/events';
+import { findFriendship, isBlockedBetween } from '../utils/friends';
+import { refId } from '../utils/wishlistView';
+import { FriendTargetBody } from '../schemas/friends';
+
+/**
+ * Find the user a request is about, by ID or username (checked by the route's schema)
+ */
+const findTargetUser = ({ userId, username }: FriendTargetBody) => {
+  if (userId) {
+    return User.findById(userId).select('username email');
+  }
+
+  if (username) {
+    return User.findOne({ username }).select('username email');
+  }
+
+  return null;
+};
+
+// ==========================================
+// FRIENDS
+// ==========================================
+
+/**
+ * Get my friends
+ * GET /api/friends
+ */
+export const getFriends = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    const friendships = await Friendship.find({
+      status: 'accepted',
+      $or: [{ requester: userId }, { recipient: userId }],
+    })
+      .populate('requester', 'username')
+      .populate('recipient', 'username')
+      .sort({ acceptedAt: -1 });
+
+    const friends = friendships.map((f) => ({
+      user: refId(f.requester) === userId ? f.recipient : f.requester,
+      since: f.acceptedAt,
+    }));
+
+    res.json({
+      success: true,
+      count: friends.length,
+      friends,
+    });
+  } catch (error: any) {
+    console.error('Error fetching friends:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching friends',
+    });
+  }
+};
+
+/**
+ * Remove a friend
+ * DELETE /api/friends/:userId
+ */
+export const removeFriend = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user!._id;
+    const friendship = await findFriendship(userId, String(req.params.userId));
+
+    if (!friendship || friendship.status !== 'accepted') {
+      res.status(404).json({
+        success: false,
+        message: 'You are not friends with this user',
+      });
+      return;
+    }
+
+    await friendship.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Friend removed',
+    });
+  } catch (error: any) {
+    console.error('Error removing friend:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error removing friend',
+    });
+  }
+};
+
+// ==========================================
+// FRIEND REQUESTS
+// ==========================================
+
+/**
+ * Get my pending friend requests (incoming and outgoing)
+ * GET /api/friends/requests
+ */
+export const getFriendRequests = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    const [incoming, outgoing] = await Promise.all([
+      Friendship.find({ recipient: userId, status: 'pending' })
+        .populate('requester', 'username')
+        .sort({ createdAt: -1 }),
+      Friendship.find({ requester: userId, status: 'pending' })
+        .populate('recipient', 'username')
+        .sort({ createdAt: -1 }),
+    ]);
+
+    res.json({
+      success: true,
+      incoming,
+      outgoing,
+    });
+  } catch (error: any) {
+    console.error('Error fetching friend requests:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching friend requests',
+    });
+  }
+};
+
+/**
+ * Send a friend request (accepts straight away if they already asked me)
+ * POST /api/friends/requests
+ * Body: { userId } or { username }
+ */
+export const sendFriendRequest = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user!._id;
+    const target = await findTargetUser(req.body as FriendTargetBody);
+
+    // Blocks look the same as a missing user from the outside
+    if (!target || (await isBlockedBetween(userId, target._id.toString()))) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const targetId = target._id.toString();
+
+    if (targetId === userId) {
+      res.status(400).json({
+        success: false,
+        message: 'You cannot befriend yourself',
+      });
+      return;
+    }
+
+    const existing = await findFriendship(userId, targetId);
+
+    if (existing?.status === 'accepted') {
+      res.status(409).json({
+        success: false,
+        message: `You are already friends with ${target.username}`,
+      });
+      return;
+    }
+
+    if (existing && existing.requester.toString() === userId) {
+      res.status(409).json({
+        success: false,
+        message: 'Friend request already sent',
+      });
+      return;
+    }
+
+    // They asked first - this counts as accepting
+    if (existing) {
+      existing.status = 'accepted';
+      existing.acceptedAt = new Date();
+      await existing.save();
+
+      res.json({
+        success: true,
+        message: `You are now friends with ${target.username}!`,
+        friendship: existing,
+      });
+      return;
+    }
+
+    let friendship;
+
+    try {
+      friendship = await Friendship.create({
+        requester: userId,
+        recipient: targetId,
+      });
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+
+      // Their request for the same pair was stored a moment before ours - accept it
+      const theirs = await Friendship.findOneAndUpdate(
+        { pair: friendshipPair(userId, targetId), requester: targetId, status: 'pending' },
+        { status: 'accepted', acceptedAt: new Date() },
+        { new: true }
+      );
+
+      if (!theirs) {
+        res.status(409).json({
+          success: false,
+          message: 'Friend request already sent',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `You are now friends with ${target.username}!`,
+        friendship: theirs,
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Friend request sent to ${target.username}!`,
+      friendship,
+    });
+  } catch (error: any) {
+    console.error('Error sending friend request:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error sending friend request',
+    });
+  }
+};
+
+/**
+ * Accept a friend request sent to me
+ * POST /api/friends/requests/:requestId/accept
+ */
+export const acceptFriendRequest = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const friendship = await Friendship.findOneAndUpdate(
+      { _id: req.params.requestId, recipient: req.user?._id, status: 'pending' },
+      { status: 'accepted', acceptedAt: new Date() },
+      { new: true }
+    ).populate<{ requester: { username: string } }>('requester', 'username');
+
+    if (!friendship) {
+      res.status(404).json({
+        success: false,
+        message: 'Friend request not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: `You are now friends with ${friendship.requester.username}!`,
+      friendship,
+    });
+  } catch (error: any) {
+    console.error('Error accepting friend request:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error accepting friend request',
+    });
+  }
+};
+
+/**
+ * Decline a friend request sent to me
+ * POST /api/friends/requests/:requestId/decline
+ */
+export const declineFriendRequest = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const friendship = await Friendship.findOneAndDelete({
+      _id: req.params.requestId,
+      recipient: req.user?._id,
+      status: 'pending',
+    });
+
+    if (!friendship) {
+      res.status(404).json({
+        success: false,
+        message: 'Friend request not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Friend request declined',
+    });
+  } catch (error: any) {
+    console.error('Error declining friend request:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error declining friend request',
+    });
+  }
+};
+
+/**
+ * Cancel a friend request I sent
+ * DELETE /api/friends/requests/:requestId
+ */
+export const cancelFriendRequest = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const friendship = await Friendship.findOneAndDelete({
+      _id: req.params.requestId,
+      requester: req.user?._id,
+      status: 'pending',
+    });
+
+    if (!friendship) {
+      res.status(404).json({
+        success: false,
+        message: 'Friend request not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Friend request cancelled',
+    });
+  } catch (error: any) {
+    console.error('Error cancelling friend request:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error cancelling friend request',
+    });
+  }
+};
+
+// ==========================================
+// BLOCKING
+// ==========================================
+
+/**
+ * Get the users I have blocked
+ * GET /api/friends/blocks
+ */
+export const getBlockedUsers = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const blocks = await Block.find({ blocker: req.user?._id })
+      .populate('blocked', 'username')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      count: blocks.length,
+      blocked: blocks.map((b) => ({ user: b.blocked, since: b.createdAt })),
+    });
+  } catch (error: any) {
+    console.error('Error fetching blocked users:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching blocked users',
+    });
+  }
+};
+
+/**
+ * Block a user (also ends any friendship or pending request).
+ * They lose their place on my lists and any pending invitation to them;
+ * access I have on their lists stays until I leave.
+ * POST /api/friends/blocks
+ * Body: { userId } or { username }
+ */
+export const blockUser = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user!._id;
+    const target = await findTargetUser(req.body as FriendTargetBody);
+
+    if (!target) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const targetId = target._id.toString();
+
+    if (targetId === userId) {
+      res.status(400).json({
+        success: false,
+        message: 'You cannot block yourself',
+      });
+      return;
+    }
+
+    // Upsert so blocking twice is harmless
+    await Block.updateOne(
+      { blocker: userId, blocked: targetId },
+      { $setOnInsert: { blocker: userId, blocked: targetId } },
+      { upsert: true }
+    );
+
+    const friendship = await findFriendship(userId, targetId);
+    if (friendship) await friendship.deleteOne();
+
+    const shared = await Wishlist.find({ owner: userId, 'collaborators.user': targetId }).select('_id');
+
+    for (const { _id } of shared) {
+      const wishlist = await Wishlist.findOneAndUpdate(
+        { _id, 'collaborators.user': targetId },
+        { $pull: { collaborators: { user: targetId } }, $inc: { version: 1 } },
+        { new: true }
+      );
+
+      if (wishlist) {
+        emitWishlistEvent({
+          type: 'member.removed',
+          wishlist,
+          actor: actorFrom(req),
+          targetUserId: targetId,
+        });
+      }
+    }
+
+    const mine = await Wishlist.find({ owner: userId }).distinct('_id');
+    await Invitation.updateMany(
+      { wishlist: { $in: mine }, email: target.email, status: 'pending' },
+      { status: 'cancelled', respondedAt: new Date() }
+    );
+
+    res.json({
+      success: true,
+      message: `${target.username} is blocked`,
+    });
+  } catch (error: any) {
+    console.error('Error blocking user:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error blocking user',
+    });
+  }
+};
+
+/**
+ * Unblock a user
+ * DELETE /api/friends/blocks/:userId
+ */
+export const unblockUser = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const block = await Block.findOneAndDelete({
+      blocker: req.user?._id,
+      blocked: req.params.userId,
+    });
+
+    if (!block) {
+      res.status(404).json({
+        success: false,
+        message: 'This user is not blocked',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'User unblocked',
+    });
+  } catch (error: any) {
+    console.error('Error unblocking user:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error unblocking user',
+    });
+  }
+};
@@ -0,0 +1,406 @@
+import { Response } from 'express';
+import Wishlist, { IItem, NewItem } from '../models/Wishlist';
+import { AuthRequest } from '../middleware/auth';
+import { WishlistRequest } from '../middleware/wishlistAccess';
+import { actorFrom, emitWishlistEvent } from '../utils/events';
+import { diffFields, snapshot, WISHLIST_FIELDS } from '../utils/activity';
+import { recordPrice } from '../utils/priceTracking';
+import { wishlistForViewer, nextPosition } from '../utils/wishlistView';
+import {
+  MAX_IMPORT_ROWS,
+  EXPORT_VERSION,
+  ImportRow,
+  ImportPlan,
+  itemsToCsv,
+  exportFileName,
+  rowsFromCsv,
+  rowsFromJson,
+  planImport,
+  importedItem,
+} from '../utils/importExport';
+import { DEFAULT_CURRENCY } from '../config/currencies';
+import { ExportQuery, ImportedWishlistDetails, importedWishlistDetails } from '../schemas/wishlist';
+import { FieldError, parseRequestPart } from '../utils/validation';
+
+/**
+ * What an import request asked for. Options come from the JSON body,
+ * or from the query string when the body is raw text/csv (both checked by the route's schemas).
+ */
+interface ImportRequest {
+  rows: ImportRow[];
+  options: Record<string, any>;
+  wishlist: ImportedWishlistDetails; // details of the list in a JSON export
+  ignoredColumns: string[];
+  dryRun: boolean;
+  skipDuplicates: boolean;
+}
+
+/**
+ * Read and parse the file sent to an import endpoint
+ */
+const readImport = (req: AuthRequest): { request?: ImportRequest; error?: string } => {
+  const rawCsv = typeof req.body === 'string';
+  const options = rawCsv ? req.query : req.body || {};
+  const format = rawCsv ? 'csv' : options.format || 'json';
+  const { duplicates = 'skip' } = options;
+
+  const data = rawCsv ? req.body : options.data;
+
+  if (data === undefined || data === null || data === '') {
+    return { error: 'Please provide the file contents in data (or send text/csv)' };
+  }
+
+  if (format === 'csv' && typeof data !== 'string') {
+    return { error: 'CSV data must be a string' };
+  }
+
+  const parsed = format === 'csv' ? rowsFromCsv(data) : rowsFromJson(data);
+
+  if (!parsed.rows) return { error: parsed.error };
+
+  if (parsed.rows.length === 0) {
+    return { error: 'There are no items to import' };
+  }
+
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    return { error: `You can import at most ${MAX_IMPORT_ROWS} items at a time` };
+  }
+
+  // The file's own list details get the same checks as the request's
+  const detailErrors: FieldError[] = [];
+  const wishlist = parseRequestPart(
+    importedWishlistDetails,
+    'wishlist' in parsed ? parsed.wishlist || {} : {},
+    'body',
+    detailErrors
+  );
+
+  if (!wishlist) {
+    return {
+      error: `The file's wishlist details are invalid: ${detailErrors
+        .map((detail) => detail.message)
+        .join(', ')}`,
+    };
+  }
+
+  return {
+    request: {
+      rows: parsed.rows,
+      options,
+      wishlist,
+      ignoredColumns: 'ignoredColumns' in parsed ? parsed.ignoredColumns || [] : [],
+      dryRun: options.dryRun === true,
+      skipDuplicates: duplicates === 'skip',
+    },
+  };
+};
+
+/**
+ * Per-row outcome sent back for every import, dry run or not
+ */
+const importReport = (request: ImportRequest, plan: ImportPlan) => ({
+  rows: request.rows.length,
+  imported: plan.errors.length || request.dryRun ? 0 : plan.items.length,
+  valid: plan.items.length,
+  invalid: plan.errors.length,
+  duplicates: plan.duplicates.length,
+  errors: plan.errors,
+  skipped: plan.duplicates,
+  ignoredColumns: request.ignoredColumns,
+});
+
+/**
+ * New items from checked import fields, placed after the existing ones
+ */
+const importedItems = (plan: ImportPlan, userId: string, existing: IItem[]): NewItem[] => {
+  let position = nextPosition(existing);
+
+  return plan.items.map((fields) => {
+    const item = importedItem(fields, userId, position++);
+
+    recordPrice(item, item.price, 'manual', userId);
+    return item;
+  });
+};
+
+// ==========================================
+// EXPORT
+// ==========================================
+
+/**
+ * Export one wishlist as JSON (everything I can see) or CSV (one row per item)
+ * GET /api/wishlists/:id/export?format=json|csv
+ */
+export const exportWishlist = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { format = 'json' } = req.query as ExportQuery;
+
+    // Same view as the API: owners don't get claims or pledges
+    const view = wishlistForViewer(req.wishlist!, req.user?._id);
+
+    res.attachment(exportFileName(view.name, format));
+
+    if (format === 'csv') {
+      res.send(itemsToCsv([view]));
+      return;
+    }
+
+    res.json({
+      success: true,
+      version: EXPORT_VERSION,
+      exportedAt: new Date(),
+      wishlist: view,
+    });
+  } catch (error: any) {
+    console.error('Error exporting wishlist:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error exporting wishlist',
+    });
+  }
+};
+
+/**
+ * Export every wishlist I own or collaborate on
+ * GET /api/wishlists/export?format=json|csv
+ */
+export const exportAllWishlists = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const { format = 'json' } = req.query as ExportQuery;
+
+    const wishlists = await Wishlist.find({
+      $or: [{ owner: userId }, { 'collaborators.user': userId }],
+    }).sort({ createdAt: 1 });
+
+    const views = wishlists.map((wishlist) => wishlistForViewer(wishlist, userId));
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.attachment(exportFileName(`wishlists-${date}`, format));
+
+    if (format === 'csv') {
+      res.send(itemsToCsv(views, true));
+      return;
+    }
+
+    res.json({
+      success: true,
+      version: EXPORT_VERSION,
+      exportedAt: new Date(),
+      count: views.length,
+      wishlists: views,
+    });
+  } catch (error: any) {
+    console.error('Error exporting wishlists:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error exporting wishlists',
+    });
+  }
+};
+
+// ==========================================
+// IMPORT
+// ==========================================
+
+/**
+ * Import a file as a new wishlist. Nothing is saved if any row is invalid.
+ * POST /api/wishlists/import
+ * Body: { format: 'json'|'csv', data, name?, description?, type?, visibility?, dryRun?, duplicates?: 'skip'|'allow' }
+ * (or a text/csv body with the options in the query string)
+ */
+export const importWishlist = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user!._id;
+    const { request, error } = readImport(req);
+
+    if (!request) {
+      res.status(400).json({
+        success: false,
+        message: error,
+      });
+      return;
+    }
+
+    // Body options win over what the exported list said (both checked by schemas)
+    const { name, description = '', type = 'private', visibility = 'private' } = {
+      ...request.wishlist,
+      ...(request.options as ImportedWishlistDetails),
+    };
+
+    if (!name) {
+      res.status(400).json({
+        success: false,
+        message: 'Wishlist name is required',
+      });
+      return;
+    }
+
+    const plan = planImport(request.rows, [], {
+      defaultCurrency: req.user?.preferredCurrency || DEFAULT_CURRENCY,
+      skipDuplicates: request.skipDuplicates,
+    });
+    const report = importReport(request, plan);
+
+    if (plan.errors.length) {
+      res.status(400).json({
+        success: false,
+        message: `${plan.errors.length} row(s) have errors - nothing was imported`,
+        report,
+      });
+      return;
+    }
+
+    if (request.dryRun) {
+      res.json({
+        success: true,
+        message: `Dry run: ${plan.items.length} item(s) would be imported into a new wishlist`,
+        report,
+      });
+      return;
+    }
+
+    const wishlist = await Wishlist.create({
+      name,
+      description,
+      owner: userId,
+      type,
+      visibility,
+      items: importedItems(plan, userId, []),
+      collaborators: [],
+    });
+
+    emitWishlistEvent({
+      type: 'wishlist.created',
+      wishlist,
+      actor: actorFrom(req),
+      changes: diffFields({}, snapshot(wishlist, WISHLIST_FIELDS), WISHLIST_FIELDS),
+    });
+
+    emitWishlistEvent({
+      type: 'wishlist.imported',
+      wishlist,
+      actor: actorFrom(req),
+      changes: [{ field: 'itemsImported', before: null, after: plan.items.length }],
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Imported ${plan.items.length} item(s) into ${wishlist.name}!`,
+      report,
+      wishlist: wishlistForViewer(wishlist, userId),
+    });
+  } catch (error: any) {
+    console.error('Error importing wishlist:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error importing wishlist',
+    });
+  }
+};
+
+/**
+ * Import a file into an existing wishlist. Items already on the list
+ * (same URL or name) are skipped unless duplicates=allow.
+ * POST /api/wishlists/:id/import
+ * Body: { format: 'json'|'csv', data, dryRun?, duplicates?: 'skip'|'allow' }
+ * (or a text/csv body with the options in the query string)
+ */
+export const importIntoWishlist = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const userId = req.user!._id;
+    const { request, error } = readImport(req);
+
+    if (!request) {
+      res.status(400).json({
+        success: false,
+        message: error,
+      });
+      return;
+    }
+
+    const plan = planImport(request.rows, wishlist.items, {
+      defaultCurrency: req.user?.preferredCurrency || DEFAULT_CURRENCY,
+      skipDuplicates: request.skipDuplicates,
+    });
+    const report = importReport(request, plan);
+
+    if (plan.errors.length) {
+      res.status(400).json({
+        success: false,
+        message: `${plan.errors.length} row(s) have errors - nothing was imported`,
+        report,
+      });
+      return;
+    }
+
+    if (request.dryRun) {
+      res.json({
+        success: true,
+        message: `Dry run: ${plan.items.length} item(s) would be added to ${wishlist.name}`,
+        report,
+      });
+      return;
+    }
+
+    if (plan.items.length === 0) {
+      res.json({
+        success: true,
+        message: 'Everything in the file is already on this wishlist',
+        report,
+      });
+      return;
+    }
+
+    // Push atomically so concurrent edits elsewhere on the list survive
+    const updated = await Wishlist.findOneAndUpdate(
+      { _id: wishlist._id },
+      {
+        $push: { items: { $each: importedItems(plan, userId, wishlist.items) } },
+        $inc: { version: 1 },
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!updated) {
+      res.status(404).json({
+        success: false,
+        message: 'Wishlist not found',
+      });
+      return;
+    }
+
+    emitWishlistEvent({
+      type: 'wishlist.imported',
+      wishlist: updated,
+      actor: actorFrom(req),
+      changes: [{ field: 'itemsImported', before: null, after: plan.items.length }],
+    });
+
+    res.json({
+      success: true,
+      message: `Imported ${plan.items.length} item(s) into ${updated.name}!`,
+      report,
+      wishlist: wishlistForViewer(updated, userId),
+    });
+  } catch (error: any) {
+    console.error('Error importing into wishlist:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error importing into wishlist',
+    });
+  }
+};
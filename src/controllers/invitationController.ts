@@ -0,0 +1,225 @@
+import { Response } from 'express';
+import Invitation from '../models/Invitation';
+import { AuthRequest } from '../middleware/auth';
+import { WishlistRequest } from '../middleware/wishlistAccess';
+import { findInvitation, isInviteExpired, joinFromInvitation } from '../utils/invitations';
+import { wishlistForViewer } from '../utils/wishlistView';
+import { actorFrom } from '../utils/events';
+
+// ==========================================
+// MY INVITATIONS (invitee)
+// ==========================================
+
+/**
+ * Get pending invitations sent to the current user
+ * GET /api/invitations
+ */
+export const getMyInvitations = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const invitations = await Invitation.find({
+      email: req.user?.email,
+      status: 'pending',
+      expiresAt: { $gt: new Date() },
+    })
+      .populate('wishlist', 'name description')
+      .populate('invitedBy', 'username')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      count: invitations.length,
+      invitations,
+    });
+  } catch (error: any) {
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching invitations',
+    });
+  }
+};
+
+/**
+ * Accept an invitation (by the token from its email, or its id)
+ * POST /api/invitations/:token/accept
+ */
+export const acceptInvitation = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const invitation = await findInvitation(String(req.params.token));
+
+    // Invitations for someone else look the same as missing ones
+    if (!invitation || invitation.email !== req.user?.email) {
+      res.status(404).json({
+        success: false,
+        message: 'Invitation not found',
+      });
+      return;
+    }
+
+    if (invitation.status !== 'pending') {
+      res.status(400).json({
+        success: false,
+        message: `Invitation has already been ${invitation.status}`,
+      });
+      return;
+    }
+
+    if (isInviteExpired(invitation)) {
+      invitation.status = 'expired';
+      await invitation.save();
+
+      res.status(410).json({
+        success: false,
+        message: 'Invitation has expired',
+      });
+      return;
+    }
+
+    const wishlist = await joinFromInvitation(invitation, actorFrom(req));
+
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        message: 'Wishlist no longer exists',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: `You joined ${wishlist.name}!`,
+      wishlist: wishlistForViewer(wishlist, req.user._id),
+    });
+  } catch (error: any) {
+    console.error('Error accepting invitation:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error accepting invitation',
+    });
+  }
+};
+
+/**
+ * Decline an invitation (by the token from its email, or its id)
+ * POST /api/invitations/:token/decline
+ */
+export const declineInvitation = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const invitation = await findInvitation(String(req.params.token));
+
+    if (!invitation || invitation.email !== req.user?.email) {
+      res.status(404).json({
+        success: false,
+        message: 'Invitation not found',
+      });
+      return;
+    }
+
+    if (invitation.status !== 'pending') {
+      res.status(400).json({
+        success: false,
+        message: `Invitation has already been ${invitation.status}`,
+      });
+      return;
+    }
+
+    invitation.status = 'declined';
+    invitation.respondedAt = new Date();
+    await invitation.save();
+
+    res.json({
+      success: true,
+      message: 'Invitation declined',
+    });
+  } catch (error: any) {
+    console.error('Error declining invitation:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error declining invitation',
+    });
+  }
+};
+
+// ==========================================
+// WISHLIST INVITATIONS (owner and managers)
+// ==========================================
+
+/**
+ * Get outstanding invitations for a wishlist
+ * GET /api/wishlists/:id/invitations
+ */
+export const getWishlistInvitations = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+
+    const invitations = await Invitation.find({
+      wishlist: wishlist._id,
+      status: 'pending',
+    })
+      .populate('invitedBy', 'username')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      count: invitations.length,
+      invitations,
+    });
+  } catch (error: any) {
+    console.error('Error fetching wishlist invitations:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching wishlist invitations',
+    });
+  }
+};
+
+/**
+ * Cancel an outstanding invitation
+ * DELETE /api/wishlists/:id/invitations/:inviteId
+ */
+export const cancelInvitation = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+
+    const invitation = await Invitation.findOneAndUpdate(
+      { _id: req.params.inviteId, wishlist: wishlist._id, status: 'pending' },
+      { status: 'cancelled', respondedAt: new Date() },
+      { new: true }
+    );
+
+    if (!invitation) {
+      res.status(404).json({
+        success: false,
+        message: 'Pending invitation not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Invitation cancelled',
+      invitation,
+    });
+  } catch (error: any) {
+    console.error('Error cancelling invitation:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error cancelling invitation',
+    });
+  }
+};
@@ -0,0 +1,411 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Wishlist, {
+  IWishlist,
+  IItem,
+  ItemDocument,
+  IFulfilment,
+  IPledge,
+  IPriceWatch,
+} from '../models/Wishlist';
+import { WishlistRequest } from '../middleware/wishlistAccess';
+import { getWishlistRole, roleCan, canModifyItem, Permission } from '../utils/permissions';
+import { actorFrom, emitWishlistEvent } from '../utils/events';
+import { diffFields, snapshot, ITEM_FIELDS } from '../utils/activity';
+import { wishlistETag, hasIfMatch, preconditionFailed } from '../utils/etag';
+import {
+  sortedItems,
+  nextPosition,
+  itemForViewer,
+  wishlistForViewer,
+  refId,
+} from '../utils/wishlistView';
+import { recheckFundedAt } from '../utils/groupGift';
+import { clonedItem } from '../utils/templates';
+import { supportsTransactions } from '../config/database';
+import { MoveItemBody, ReorderBody } from '../schemas/wishlist';
+
+/**
+ * Load the wishlist an item is sent to and check the caller can add items there
+ */
+const loadTarget = async (
+  req: WishlistRequest
+): Promise<{ target?: IWishlist; status?: number; message?: string }> => {
+  const { targetWishlistId } = req.body as MoveItemBody;
+
+  if (targetWishlistId === req.wishlist!._id.toString()) {
+    return { status: 400, message: 'The item is already on this wishlist' };
+  }
+
+  const target = await Wishlist.findById(targetWishlistId);
+
+  if (!target) {
+    return { status: 404, message: 'Target wishlist not found' };
+  }
+
+  if (!roleCan(getWishlistRole(target, req.user?._id), 'addItems')) {
+    return { status: 403, message: 'You do not have permission to add items to the target wishlist' };
+  }
+
+  return { target };
+};
+
+// ==========================================
+// ORDERING
+// ==========================================
+
+/**
+ * Reorder items. A partial list rearranges just those items within
+ * the slots they already occupy; everything else stays put.
+ * PUT /api/wishlists/:id/items/order
+ * Body: { itemIds: string[] }
+ */
+export const reorderItems = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const { itemIds: ids } = req.body as ReorderBody;
+    const ordered = sortedItems(wishlist.items);
+
+    const unknown = ids.filter((id) => !ordered.some((item) => item._id?.toString() === id));
+
+    if (unknown.length) {
+      res.status(400).json({
+        success: false,
+        message: `Items not on this wishlist: ${unknown.join(', ')}`,
+      });
+      return;
+    }
+
+    // Slots held by the listed items, refilled in the requested order
+    const listed = new Set(ids);
+    const queue = [...ids];
+    const result = ordered.map((item) =>
+      listed.has(item._id!.toString())
+        ? ordered.find((i) => i._id?.toString() === queue.shift())!
+        : item
+    );
+
+    // Write only the positions that move, so edits to the items themselves aren't overwritten
+    const set: Record<string, number> = {};
+    const arrayFilters: Record<string, any>[] = [];
+
+    result.forEach((item, index) => {
+      if (item.position === index) return;
+
+      const n = arrayFilters.length;
+      set[`items.$[i${n}].position`] = index;
+      arrayFilters.push({ [`i${n}._id`]: item._id });
+    });
+
+    const updated =
+      arrayFilters.length === 0
+        ? wishlist
+        : await Wishlist.findOneAndUpdate(
+            { _id: wishlist._id, ...(hasIfMatch(req) && { version: wishlist.version }) },
+            { $set: set, $inc: { version: 1 } },
+            { new: true, arrayFilters }
+          );
+
+    if (!updated) {
+      if (hasIfMatch(req)) {
+        preconditionFailed(res, 'wishlist');
+        return;
+      }
+
+      res.status(404).json({
+        success: false,
+        message: 'Wishlist not found',
+      });
+      return;
+    }
+
+    emitWishlistEvent({
+      type: 'wishlist.updated',
+      wishlist: updated,
+      actor: actorFrom(req),
+      changes: [{ field: 'itemOrder', before: null, after: ids }],
+    });
+
+    res.set('ETag', wishlistETag(updated));
+    res.json({
+      success: true,
+      message: 'Items reordered!',
+      wishlist: wishlistForViewer(updated, req.user?._id),
+    });
+  } catch (error: any) {
+    console.error('Error reordering items:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error reordering items',
+    });
+  }
+};
+
+// ==========================================
+// MOVE / COPY
+// ==========================================
+
+/**
+ * A move that can't finish because a list changed in the meantime (nothing is written)
+ */
+class MoveConflict extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MoveConflict';
+  }
+}
+
+/**
+ * The item as it lands on the target list. Claims, pledges and price alerts
+ * stay only for people who may claim, chip in or look at the target.
+ */
+const movedItem = (item: ItemDocument, target: IWishlist): Record<string, any> => {
+  const plain = item.toObject();
+  const may = (user: any, permission: Permission) =>
+    roleCan(getWishlistRole(target, refId(user)), permission);
+
+  const fulfilments = plain.fulfilments.filter((f: IFulfilment) => may(f.user, 'claimItems'));
+  const pledges = plain.groupGift.pledges.filter((p: IPledge) => may(p.user, 'pledge'));
+  const keepsOrganizer = pledges.some((p: IPledge) => p.user.equals(plain.groupGift.organizer));
+
+  const groupGift = {
+    ...plain.groupGift,
+    pledges,
+    total: Math.round(pledges.reduce((sum: number, p: IPledge) => sum + p.amount, 0) * 100) / 100,
+    organizer: keepsOrganizer ? plain.groupGift.organizer : pledges[0]?.user ?? null,
+    lockedAt: keepsOrganizer ? plain.groupGift.lockedAt : null,
+  };
+
+  return {
+    ...plain,
+    position: nextPosition(target.items),
+    fulfilments,
+    fulfilledQuantity: fulfilments.reduce((sum: number, f: IFulfilment) => sum + f.quantity, 0),
+    groupGift: { ...groupGift, fundedAt: recheckFundedAt({ price: plain.price, groupGift }) },
+    priceWatches: plain.priceWatches.filter((w: IPriceWatch) => may(w.user, 'view')),
+  };
+};
+
+/**
+ * Take the item off the source and put it on the target: both or neither.
+ * Uses a transaction where MongoDB has them; a standalone server gets the
+ * copy first and the copy undone if the item had already gone from the source.
+ */
+const writeMove = async (
+  source: IWishlist,
+  target: IWishlist,
+  moved: Record<string, any>
+): Promise<void> => {
+  const onSource = { _id: source._id, 'items._id': moved._id };
+  const pullItem = { $pull: { items: { _id: moved._id } }, $inc: { version: 1 } };
+  const pushItem = { $push: { items: moved }, $inc: { version: 1 } };
+
+  const itemGone = () => new MoveConflict('The item was removed in the meantime');
+  const targetGone = () => new MoveConflict('The target wishlist was removed in the meantime');
+
+  if (!(await supportsTransactions())) {
+    const pushed = await Wishlist.updateOne({ _id: target._id }, pushItem);
+    if (pushed.matchedCount !== 1) throw targetGone();
+
+    const pulled = await Wishlist.updateOne(onSource, pullItem);
+
+    if (pulled.modifiedCount !== 1) {
+      await Wishlist.updateOne({ _id: target._id }, pullItem);
+      throw itemGone();
+    }
+
+    return;
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    // Throwing rolls the transaction back
+    await session.withTransaction(async () => {
+      const pulled = await Wishlist.updateOne(onSource, pullItem, { session });
+      if (pulled.modifiedCount !== 1) throw itemGone();
+
+      // The target may have been deleted or trashed since we loaded it
+      const pushed = await Wishlist.updateOne({ _id: target._id }, pushItem, { session });
+      if (pushed.matchedCount !== 1) throw targetGone();
+    });
+  } finally {
+    await session.endSession();
+  }
+};
+
+/**
+ * Move an item to another wishlist, keeping its history, claims and who added it.
+ * Claims, pledges and price alerts only come along for people who could make them there.
+ * POST /api/wishlists/:id/items/:itemId/move
+ * Body: { targetWishlistId: string }
+ */
+export const moveItem = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const source = req.wishlist!;
+    const userId = req.user?._id;
+
+    const item = source.items.find(
+      (i) => i._id?.toString() === req.params.itemId
+    );
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    // Moving takes the item off this list, so it needs delete rights here
+    if (!canModifyItem(req.wishlistRole, item, userId, 'delete')) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to move this item',
+      });
+      return;
+    }
+
+    const { target, status, message } = await loadTarget(req);
+
+    if (!target) {
+      res.status(status!).json({
+        success: false,
+        message,
+      });
+      return;
+    }
+
+    await writeMove(source, target, movedItem(item, target));
+
+    const updatedTarget = (await Wishlist.findById(target._id))!;
+    const change = { field: 'wishlist', before: source.name, after: target.name };
+
+    [source, updatedTarget].forEach((wishlist) => {
+      emitWishlistEvent({
+        type: 'item.moved',
+        wishlist,
+        actor: actorFrom(req),
+        item: { _id: item._id!.toString(), name: item.name },
+        changes: [change],
+      });
+    });
+
+    res.json({
+      success: true,
+      message: `Item moved to ${target.name}!`,
+      item: itemForViewer(
+        updatedTarget,
+        updatedTarget.items.find((i) => i._id?.toString() === req.params.itemId),
+        userId
+      ),
+    });
+  } catch (error: any) {
+    if (error instanceof MoveConflict) {
+      res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Error moving item:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error moving item',
+    });
+  }
+};
+
+/**
+ * Copy an item to another wishlist (claims, pledges and price alerts stay behind,
+ * and so does the price history unless it's your own list)
+ * POST /api/wishlists/:id/items/:itemId/copy
+ * Body: { targetWishlistId: string }
+ */
+export const copyItem = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+
+    const item = req.wishlist!.items.find(
+      (i) => i._id?.toString() === req.params.itemId
+    );
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    const { target, status, message } = await loadTarget(req);
+
+    if (!target) {
+      res.status(status!).json({
+        success: false,
+        message,
+      });
+      return;
+    }
+
+    const copyId = new mongoose.Types.ObjectId();
+
+    // Same rules as cloning a list: the price history only comes along from your own list
+    const copy = clonedItem(
+      item,
+      new mongoose.Types.ObjectId(userId),
+      nextPosition(target.items),
+      refId(req.wishlist!.owner) === userId
+    );
+
+    // Single-document update, so it's atomic on its own
+    const updated = await Wishlist.findOneAndUpdate(
+      { _id: target._id },
+      {
+        $push: { items: { ...copy, _id: copyId } },
+        $inc: { version: 1 },
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      res.status(404).json({
+        success: false,
+        message: 'Target wishlist not found',
+      });
+      return;
+    }
+
+    const added = updated.items.find((i) => i._id?.equals(copyId))!;
+
+    emitWishlistEvent({
+      type: 'item.added',
+      wishlist: updated,
+      actor: actorFrom(req),
+      item: { _id: copyId.toString(), name: added.name },
+      changes: diffFields({}, snapshot(added, ITEM_FIELDS), ITEM_FIELDS),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Item copied to ${updated.name}!`,
+      item: itemForViewer(updated, added, userId),
+    });
+  } catch (error: any) {
+    console.error('Error copying item:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error copying item',
+    });
+  }
+};
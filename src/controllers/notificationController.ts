@@ -0,0 +1,224 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Notification from '../models/Notification';
+import User from '../models/User';
+import { AuthRequest } from '../middleware/auth';
+import { WISHLIST_EVENT_TYPES } from '../utils/events';
+
+// ==========================================
+// FEED
+// ==========================================
+
+/**
+ * Get my notifications (newest first) with the unread count
+ * GET /api/notifications?unread=true&limit=20&before=<ISO date>
+ */
+export const getNotifications = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+
+    const filter: Record<string, any> = { recipient: userId };
+
+    if (req.query.unread === 'true') filter.readAt = null;
+    if (req.query.before) filter.createdAt = { $lt: new Date(String(req.query.before)) };
+
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find(filter)
+        .populate('actor', 'username')
+        .populate('wishlist', 'name')
+        .sort({ createdAt: -1 })
+        .limit(limit),
+      Notification.countDocuments({ recipient: userId, readAt: null }),
+    ]);
+
+    res.json({
+      success: true,
+      count: notifications.length,
+      unreadCount,
+      notifications,
+    });
+  } catch (error: any) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching notifications',
+    });
+  }
+};
+
+/**
+ * Mark one notification as read
+ * POST /api/notifications/:id/read
+ */
+export const markRead = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const notification = await Notification.findOne({
+      _id: req.params.id,
+      recipient: req.user?._id,
+    });
+
+    if (!notification) {
+      res.status(404).json({
+        success: false,
+        message: 'Notification not found',
+      });
+      return;
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+
+    res.json({
+      success: true,
+      notification,
+    });
+  } catch (error: any) {
+    console.error('Error marking notification read:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error marking notification read',
+    });
+  }
+};
+
+/**
+ * Mark all my notifications as read
+ * POST /api/notifications/read-all
+ */
+export const markAllRead = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const result = await Notification.updateMany(
+      { recipient: req.user?._id, readAt: null },
+      { readAt: new Date() }
+    );
+
+    res.json({
+      success: true,
+      message: 'All notifications marked as read',
+      updated: result.modifiedCount,
+    });
+  } catch (error: any) {
+    console.error('Error marking notifications read:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error marking notifications read',
+    });
+  }
+};
+
+// ==========================================
+// PREFERENCES
+// ==========================================
+
+/**
+ * Get my notification preferences
+ * GET /api/notifications/preferences
+ */
+export const getPreferences = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?._id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      preferences: user.notificationPreferences,
+      availableTypes: WISHLIST_EVENT_TYPES,
+    });
+  } catch (error: any) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching notification preferences',
+    });
+  }
+};
+
+/**
+ * Update my notification preferences (mute types or wishlists)
+ * PUT /api/notifications/preferences
+ */
+export const updatePreferences = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { mutedTypes, mutedWishlists } = req.body;
+
+    if (
+      mutedTypes !== undefined &&
+      (!Array.isArray(mutedTypes) ||
+        mutedTypes.some((type: string) => !(WISHLIST_EVENT_TYPES as readonly string[]).includes(type)))
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `mutedTypes must be a list of: ${WISHLIST_EVENT_TYPES.join(', ')}`,
+      });
+      return;
+    }
+
+    if (
+      mutedWishlists !== undefined &&
+      (!Array.isArray(mutedWishlists) ||
+        mutedWishlists.some((id: string) => !mongoose.isValidObjectId(id)))
+    ) {
+      res.status(400).json({
+        success: false,
+        message: 'mutedWishlists must be a list of wishlist IDs',
+      });
+      return;
+    }
+
+    const user = await User.findById(req.user?._id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    if (mutedTypes !== undefined) {
+      user.notificationPreferences.mutedTypes = mutedTypes;
+    }
+    if (mutedWishlists !== undefined) {
+      user.notificationPreferences.mutedWishlists = mutedWishlists;
+    }
+
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Notification preferences updated!',
+      preferences: user.notificationPreferences,
+    });
+  } catch (error: any) {
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error updating notification preferences',
+    });
+  }
+};
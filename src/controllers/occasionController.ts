@@ -0,0 +1,79 @@
+import { Response } from 'express';
+import Wishlist from '../models/Wishlist';
+import { AuthRequest } from '../middleware/auth';
+import { getWishlistRole } from '../utils/permissions';
+import { nextOccurrence, daysBetween } from '../utils/occasions';
+import { friendIdsOf } from '../utils/friends';
+import { populatedUsername } from '../utils/wishlistView';
+
+/**
+ * Upcoming occasions on lists I own or collaborate on, plus friends' lists I can see (soonest first)
+ * GET /api/occasions/upcoming?days=60
+ */
+export const getUpcomingOccasions = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const days = req.query.days === undefined ? 60 : Number(req.query.days);
+
+    if (!Number.isInteger(days) || days < 0 || days > 366) {
+      res.status(400).json({
+        success: false,
+        message: 'days must be a whole number between 0 and 366',
+      });
+      return;
+    }
+
+    const friendIds = await friendIdsOf(userId!);
+
+    const wishlists = await Wishlist.find({
+      $or: [
+        { owner: userId },
+        { 'collaborators.user': userId },
+        { owner: { $in: friendIds }, visibility: { $in: ['friends', 'public'] } },
+      ],
+      occasion: { $ne: null },
+      archivedAt: null,
+    })
+      .select('name owner collaborators occasion visibility type')
+      .populate('owner', 'username');
+
+    const now = new Date();
+
+    const occasions = wishlists
+      .map((wishlist) => {
+        const date = nextOccurrence(wishlist.occasion!, now);
+
+        return {
+          wishlist: {
+            _id: wishlist._id,
+            name: wishlist.name,
+            owner: { username: populatedUsername(wishlist.owner) },
+            role: getWishlistRole(wishlist, userId),
+          },
+          occasion: {
+            type: wishlist.occasion!.type,
+            recurrence: wishlist.occasion!.recurrence,
+            date,
+          },
+          daysUntil: date ? daysBetween(now, date) : null,
+        };
+      })
+      .filter((entry) => entry.daysUntil !== null && entry.daysUntil <= days)
+      .sort((a, b) => a.daysUntil! - b.daysUntil!);
+
+    res.json({
+      success: true,
+      count: occasions.length,
+      occasions,
+    });
+  } catch (error: any) {
+    console.error('Error fetching upcoming occasions:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching upcoming occasions',
+    });
+  }
+};
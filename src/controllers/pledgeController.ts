@@ -0,0 +1,543 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Wishlist, { IWishlist, IItem, ItemDocument } from '../models/Wishlist';
+import { WishlistRequest } from '../middleware/wishlistAccess';
+import { actorFrom, emitWishlistEvent, FieldChange, WishlistEventType } from '../utils/events';
+import { poolSummary, refId } from '../utils/wishlistView';
+import { POOL_EPSILON, isPoolFunded } from '../utils/groupGift';
+import { PledgeBody, UpdatePledgeBody } from '../schemas/wishlist';
+
+/**
+ * A pledge amount rounded to cents (the schema makes sure it's at least 0.01)
+ */
+const toAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const findItem = (wishlist: IWishlist, itemId: string): ItemDocument | undefined => {
+  return wishlist.items.find((i) => i._id?.toString() === itemId);
+};
+
+/**
+ * Why an item's pool can't take changes right now (null = open)
+ */
+const closedReason = (item: IItem): string | null => {
+  if (item.price === null) return 'This item needs a price before friends can chip in';
+  if (item.groupGift.lockedAt) return 'The organizer has locked this group gift';
+  if (item.groupGift.fundedAt) return 'This item is already fully funded';
+  return null;
+};
+
+/**
+ * Group gift as seen by a giver
+ */
+const poolView = async (wishlist: IWishlist, itemId: string, userId?: string) => {
+  await wishlist.populate([
+    { path: 'items.groupGift.organizer', select: 'username' },
+    { path: 'items.groupGift.pledges.user', select: 'username' },
+  ]);
+
+  const item = findItem(wishlist, itemId)!;
+  const pool = item.toObject().groupGift;
+
+  return {
+    ...pool,
+    ...poolSummary(item),
+    myPledge: pool.pledges.find((pledge: any) => refId(pledge.user) === userId) || null,
+  };
+};
+
+const emitPoolEvent = (
+  req: WishlistRequest,
+  type: WishlistEventType,
+  wishlist: IWishlist,
+  item: IItem,
+  changes: FieldChange[] = []
+): void => {
+  emitWishlistEvent({
+    type,
+    wishlist,
+    actor: actorFrom(req),
+    item: { _id: item._id!.toString(), name: item.name },
+    changes,
+    surprise: true,
+  });
+};
+
+/**
+ * Mark the pool funded once pledges cover the price (only the first caller wins)
+ */
+const markFundedIfComplete = async (
+  req: WishlistRequest,
+  wishlist: IWishlist,
+  itemId: string
+): Promise<IWishlist> => {
+  const item = findItem(wishlist, itemId)!;
+
+  if (!isPoolFunded(item)) {
+    return wishlist;
+  }
+
+  const updated = await Wishlist.findOneAndUpdate(
+    {
+      _id: wishlist._id,
+      items: { $elemMatch: { _id: item._id, 'groupGift.fundedAt': null } },
+    },
+    { $set: { 'items.$.groupGift.fundedAt': new Date() } },
+    { new: true, timestamps: false } // pool writes leave updatedAt alone so the owner can't tell
+  );
+
+  if (!updated) return wishlist;
+
+  emitPoolEvent(req, 'item.funded', updated, item);
+
+  return updated;
+};
+
+// ==========================================
+// POOL
+// ==========================================
+
+/**
+ * Get the group gift of an item: total, funded percentage, pledges
+ * GET /api/wishlists/:id/items/:itemId/pledges
+ */
+export const getPool = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const itemId = String(req.params.itemId);
+
+    if (!findItem(wishlist, itemId)) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      groupGift: await poolView(wishlist, itemId, req.user?._id),
+    });
+  } catch (error: any) {
+    console.error('Error fetching group gift:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching group gift',
+    });
+  }
+};
+
+/**
+ * Lock or reopen the pool (organizer only)
+ */
+const setPoolLock = async (
+  req: WishlistRequest,
+  res: Response,
+  lock: boolean
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const itemId = String(req.params.itemId);
+    const item = findItem(wishlist, itemId);
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    if (refId(item.groupGift.organizer) !== req.user?._id) {
+      res.status(403).json({
+        success: false,
+        message: 'Only the organizer can lock or unlock this group gift',
+      });
+      return;
+    }
+
+    const updated = await Wishlist.findOneAndUpdate(
+      {
+        _id: wishlist._id,
+        items: {
+          $elemMatch: { _id: item._id, 'groupGift.lockedAt': lock ? null : { $ne: null } },
+        },
+      },
+      { $set: { 'items.$.groupGift.lockedAt': lock ? new Date() : null } },
+      { new: true, timestamps: false }
+    );
+
+    if (!updated) {
+      res.status(409).json({
+        success: false,
+        message: lock ? 'This group gift is already locked' : 'This group gift is not locked',
+      });
+      return;
+    }
+
+    emitPoolEvent(req, lock ? 'item.poolLocked' : 'item.poolUnlocked', updated, item);
+
+    res.json({
+      success: true,
+      message: lock ? 'Group gift locked!' : 'Group gift reopened!',
+      groupGift: await poolView(updated, itemId, req.user?._id),
+    });
+  } catch (error: any) {
+    console.error('Error locking group gift:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error locking group gift',
+    });
+  }
+};
+
+/**
+ * Lock the pool so pledges can no longer change (organizer only)
+ * POST /api/wishlists/:id/items/:itemId/pledges/lock
+ */
+export const lockPool = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  await setPoolLock(req, res, true);
+};
+
+/**
+ * Reopen a locked pool (organizer only)
+ * DELETE /api/wishlists/:id/items/:itemId/pledges/lock
+ */
+export const unlockPool = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  await setPoolLock(req, res, false);
+};
+
+// ==========================================
+// PLEDGES
+// ==========================================
+
+/**
+ * Pledge an amount toward an item (the first giver becomes the organizer)
+ * POST /api/wishlists/:id/items/:itemId/pledges
+ * Body: { amount: number, note?: string }
+ */
+export const createPledge = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const itemId = String(req.params.itemId);
+    const item = findItem(wishlist, itemId);
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    const { amount: given, note = '' } = req.body as PledgeBody;
+    const amount = toAmount(given);
+
+    const closed = closedReason(item);
+
+    if (closed) {
+      res.status(409).json({
+        success: false,
+        message: closed,
+      });
+      return;
+    }
+
+    const giverId = new mongoose.Types.ObjectId(req.user?._id);
+
+    if (item.groupGift.pledges.some((pledge) => pledge.user.equals(giverId))) {
+      res.status(409).json({
+        success: false,
+        message: 'You have already pledged. Update your pledge instead.',
+      });
+      return;
+    }
+
+    const remaining = item.price! - item.groupGift.total;
+
+    if (amount > remaining + POOL_EPSILON) {
+      res.status(400).json({
+        success: false,
+        message: `Only ${poolSummary(item).remaining} ${item.currency} left to fund`,
+      });
+      return;
+    }
+
+    // Atomic: the pool must still be open with room for this amount
+    const becomesOrganizer = !item.groupGift.organizer;
+
+    const updated = await Wishlist.findOneAndUpdate(
+      {
+        _id: wishlist._id,
+        items: {
+          $elemMatch: {
+            _id: item._id,
+            price: item.price,
+            'groupGift.organizer': item.groupGift.organizer,
+            'groupGift.fundedAt': null,
+            'groupGift.lockedAt': null,
+            'groupGift.pledges.user': { $ne: giverId },
+            'groupGift.total': { $lte: item.price! - amount + POOL_EPSILON },
+          },
+        },
+      },
+      {
+        $inc: { 'items.$.groupGift.total': amount },
+        $push: {
+          'items.$.groupGift.pledges': {
+            user: giverId,
+            amount,
+            note,
+            pledgedAt: new Date(),
+            updatedAt: new Date(),
+          },
+        },
+        ...(becomesOrganizer && { $set: { 'items.$.groupGift.organizer': giverId } }),
+      },
+      { new: true, timestamps: false }
+    );
+
+    if (!updated) {
+      res.status(409).json({
+        success: false,
+        message: 'The group gift changed in the meantime. Please try again.',
+      });
+      return;
+    }
+
+    emitPoolEvent(req, 'item.pledged', updated, item, [
+      { field: 'pledge', before: null, after: amount },
+    ]);
+
+    const latest = await markFundedIfComplete(req, updated, itemId);
+
+    res.status(201).json({
+      success: true,
+      message: 'Pledge added!',
+      groupGift: await poolView(latest, itemId, req.user?._id),
+    });
+  } catch (error: any) {
+    console.error('Error adding pledge:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error adding pledge',
+    });
+  }
+};
+
+/**
+ * Change my pledge (only while the pool is open)
+ * PUT /api/wishlists/:id/items/:itemId/pledges/mine
+ * Body: { amount?: number, note?: string }
+ */
+export const updatePledge = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const itemId = String(req.params.itemId);
+    const item = findItem(wishlist, itemId);
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    const giverId = new mongoose.Types.ObjectId(req.user?._id);
+    const pledge = item.groupGift.pledges.find((p) => p.user.equals(giverId));
+
+    if (!pledge) {
+      res.status(404).json({
+        success: false,
+        message: 'You have not pledged toward this item',
+      });
+      return;
+    }
+
+    const { amount: given, note = pledge.note } = req.body as UpdatePledgeBody;
+    const amount = given === undefined ? pledge.amount : toAmount(given);
+
+    const closed = closedReason(item);
+
+    if (closed) {
+      res.status(409).json({
+        success: false,
+        message: closed,
+      });
+      return;
+    }
+
+    const delta = Math.round((amount - pledge.amount) * 100) / 100;
+
+    if (delta > item.price! - item.groupGift.total + POOL_EPSILON) {
+      res.status(400).json({
+        success: false,
+        message: `Only ${poolSummary(item).remaining} ${item.currency} left to fund`,
+      });
+      return;
+    }
+
+    const updated = await Wishlist.findOneAndUpdate(
+      {
+        _id: wishlist._id,
+        items: {
+          $elemMatch: {
+            _id: item._id,
+            price: item.price,
+            'groupGift.fundedAt': null,
+            'groupGift.lockedAt': null,
+            'groupGift.pledges': { $elemMatch: { user: giverId, amount: pledge.amount } },
+            'groupGift.total': { $lte: item.price! - delta + POOL_EPSILON },
+          },
+        },
+      },
+      {
+        $inc: { 'items.$[i].groupGift.total': delta },
+        $set: {
+          'items.$[i].groupGift.pledges.$[p].amount': amount,
+          'items.$[i].groupGift.pledges.$[p].note': note,
+          'items.$[i].groupGift.pledges.$[p].updatedAt': new Date(),
+        },
+      },
+      {
+        new: true,
+        timestamps: false,
+        arrayFilters: [{ 'i._id': item._id }, { 'p.user': giverId }],
+      }
+    );
+
+    if (!updated) {
+      res.status(409).json({
+        success: false,
+        message: 'The group gift changed in the meantime. Please try again.',
+      });
+      return;
+    }
+
+    emitPoolEvent(req, 'item.pledgeUpdated', updated, item, [
+      { field: 'pledge', before: pledge.amount, after: amount },
+    ]);
+
+    const latest = await markFundedIfComplete(req, updated, itemId);
+
+    res.json({
+      success: true,
+      message: 'Pledge updated!',
+      groupGift: await poolView(latest, itemId, req.user?._id),
+    });
+  } catch (error: any) {
+    console.error('Error updating pledge:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error updating pledge',
+    });
+  }
+};
+
+/**
+ * Withdraw my pledge (only while the pool is open)
+ * DELETE /api/wishlists/:id/items/:itemId/pledges/mine
+ */
+export const withdrawPledge = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const itemId = String(req.params.itemId);
+    const item = findItem(wishlist, itemId);
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    const giverId = new mongoose.Types.ObjectId(req.user?._id);
+    const pledge = item.groupGift.pledges.find((p) => p.user.equals(giverId));
+
+    if (!pledge) {
+      res.status(404).json({
+        success: false,
+        message: 'You have not pledged toward this item',
+      });
+      return;
+    }
+
+    const closed = closedReason(item);
+
+    if (closed) {
+      res.status(409).json({
+        success: false,
+        message: closed,
+      });
+      return;
+    }
+
+    // The organizer role passes to the next giver in line
+    const nextOrganizer = item.groupGift.organizer?.equals(giverId)
+      ? item.groupGift.pledges.find((p) => !p.user.equals(giverId))?.user ?? null
+      : item.groupGift.organizer;
+
+    const updated = await Wishlist.findOneAndUpdate(
+      {
+        _id: wishlist._id,
+        items: {
+          $elemMatch: {
+            _id: item._id,
+            'groupGift.fundedAt': null,
+            'groupGift.lockedAt': null,
+            'groupGift.pledges': { $elemMatch: { user: giverId, amount: pledge.amount } },
+          },
+        },
+      },
+      {
+        $inc: { 'items.$.groupGift.total': -pledge.amount },
+        $pull: { 'items.$.groupGift.pledges': { user: giverId } },
+        $set: { 'items.$.groupGift.organizer': nextOrganizer },
+      },
+      { new: true, timestamps: false }
+    );
+
+    if (!updated) {
+      res.status(409).json({
+        success: false,
+        message: 'The group gift changed in the meantime. Please try again.',
+      });
+      return;
+    }
+
+    emitPoolEvent(req, 'item.pledgeWithdrawn', updated, item, [
+      { field: 'pledge', before: pledge.amount, after: null },
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Pledge withdrawn!',
+      groupGift: await poolView(updated, itemId, req.user?._id),
+    });
+  } catch (error: any) {
+    console.error('Error withdrawing pledge:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error withdrawing pledge',
+    });
+  }
+};
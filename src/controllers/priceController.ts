@@ -0,0 +1,180 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Wishlist from '../models/Wishlist';
+import { WishlistRequest } from '../middleware/wishlistAccess';
+import { refId } from '../utils/wishlistView';
+import { PriceWatchBody } from '../schemas/wishlist';
+
+/**
+ * Get the price history of an item
+ * GET /api/wishlists/:id/items/:itemId/price-history
+ */
+export const getPriceHistory = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+
+    const item = wishlist.items.find(
+      (i) => i._id?.toString() === req.params.itemId
+    );
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    const myWatch = item.priceWatches.find(
+      (watch) => refId(watch.user) === req.user?._id
+    );
+
+    res.json({
+      success: true,
+      itemId: item._id,
+      currentPrice: item.price,
+      lowestPrice: item.priceHistory.length
+        ? Math.min(...item.priceHistory.map((point) => point.price))
+        : null,
+      history: item.priceHistory,
+      watch: myWatch || null,
+    });
+  } catch (error: any) {
+    console.error('Error fetching price history:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching price history',
+    });
+  }
+};
+
+/**
+ * Set my price alert on an item (target price and/or drop percentage)
+ * PUT /api/wishlists/:id/items/:itemId/price-watch
+ */
+export const setPriceWatch = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const userId = req.user?._id;
+
+    const item = wishlist.items.find(
+      (i) => i._id?.toString() === req.params.itemId
+    );
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    const { targetPrice = null, dropPercent = null } = req.body as PriceWatchBody;
+
+    if (targetPrice === null && dropPercent === null) {
+      res.status(400).json({
+        success: false,
+        message: 'Provide a targetPrice, a dropPercent, or both',
+      });
+      return;
+    }
+
+    const user = new mongoose.Types.ObjectId(userId);
+    const watch = { user, targetPrice, dropPercent, basePrice: item.price, lastAlertAt: null };
+
+    // Replace my watch if I have one, else add it - only this item's watches are written
+    const updated =
+      (await Wishlist.findOneAndUpdate(
+        { _id: wishlist._id, items: { $elemMatch: { _id: item._id, 'priceWatches.user': user } } },
+        { $set: { 'items.$[i].priceWatches.$[w]': watch } },
+        { new: true, runValidators: true, arrayFilters: [{ 'i._id': item._id }, { 'w.user': user }] }
+      )) ??
+      (await Wishlist.findOneAndUpdate(
+        { _id: wishlist._id, items: { $elemMatch: { _id: item._id, 'priceWatches.user': { $ne: user } } } },
+        { $push: { 'items.$[i].priceWatches': watch } },
+        { new: true, runValidators: true, arrayFilters: [{ 'i._id': item._id }] }
+      ));
+
+    const saved = updated?.items
+      .find((i) => i._id?.equals(item._id))
+      ?.priceWatches.find((w) => refId(w.user) === userId);
+
+    if (!saved) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Price alert saved!',
+      watch: saved,
+    });
+  } catch (error: any) {
+    console.error('Error setting price watch:', error);
+
+    if (error.name === 'ValidationError') {
+      const messages = Object.values(error.errors).map((err: any) => err.message);
+      res.status(400).json({
+        success: false,
+        message: messages.join(', '),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error setting price watch',
+    });
+  }
+};
+
+/**
+ * Remove my price alert from an item
+ * DELETE /api/wishlists/:id/items/:itemId/price-watch
+ */
+export const removePriceWatch = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+
+    const item = wishlist.items.find(
+      (i) => i._id?.toString() === req.params.itemId
+    );
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    await Wishlist.updateOne(
+      { _id: wishlist._id },
+      { $pull: { 'items.$[i].priceWatches': { user: new mongoose.Types.ObjectId(req.user?._id) } } },
+      { arrayFilters: [{ 'i._id': item._id }] }
+    );
+
+    res.json({
+      success: true,
+      message: 'Price alert removed',
+    });
+  } catch (error: any) {
+    console.error('Error removing price watch:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error removing price watch',
+    });
+  }
+};
@@ -0,0 +1,189 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Wishlist from '../models/Wishlist';
+import Session from '../models/Session';
+import { AuthRequest } from '../middleware/auth';
+import { WishlistRequest } from '../middleware/wishlistAccess';
+import { getWishlistRole } from '../utils/permissions';
+import { canViewAsOutsider } from '../utils/friends';
+import {
+  MAX_SUBSCRIPTIONS,
+  MAX_STREAMS_PER_USER,
+  Subscription,
+  openStream,
+  streamCountOf,
+  viewersOf,
+} from '../utils/realtime';
+
+/**
+ * Is the session behind this request still alive (not logged out, revoked or expired)?
+ */
+const sessionAlive = async (sessionId?: string): Promise<boolean> => {
+  const session = sessionId ? await Session.findById(sessionId) : null;
+
+  return !!session && !session.revokedAt && session.expiresAt.getTime() > Date.now();
+};
+
+/**
+ * Which followed wishlists a user can no longer see, and why (same reasons as live events give)
+ */
+const lostAccess = async (
+  userId: string,
+  subscriptions: Subscription[]
+): Promise<{ wishlistId: string; reason: string }[]> => {
+  const wishlists = await Wishlist.find({ _id: { $in: subscriptions.map((s) => s.wishlistId) } });
+  const lost = [];
+
+  for (const { wishlistId, outsider } of subscriptions) {
+    const wishlist = wishlists.find((w) => w._id.toString() === wishlistId);
+
+    if (!wishlist) {
+      lost.push({ wishlistId, reason: 'deleted' });
+    } else if (getWishlistRole(wishlist, userId)) {
+      continue;
+    } else if (!outsider) {
+      lost.push({ wishlistId, reason: 'removed' });
+    } else if (!(await canViewAsOutsider(wishlist, userId))) {
+      // Made private, unfriended or blocked
+      lost.push({ wishlistId, reason: 'private' });
+    }
+  }
+
+  return lost;
+};
+
+/**
+ * Stream live events for the wishlists I can see (Server-Sent Events).
+ * Reconnects resume after Last-Event-ID (or ?lastEventId=).
+ * GET /api/realtime?wishlists=id1,id2
+ */
+export const streamEvents = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user!._id;
+    const ids = [
+      ...new Set(
+        String(req.query.wishlists || '')
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean)
+      ),
+    ];
+
+    if (!ids.length) {
+      res.status(400).json({
+        success: false,
+        message: 'Please list the wishlists to follow (?wishlists=id1,id2)',
+      });
+      return;
+    }
+
+    if (ids.length > MAX_SUBSCRIPTIONS) {
+      res.status(400).json({
+        success: false,
+        message: `A stream can follow at most ${MAX_SUBSCRIPTIONS} wishlists`,
+      });
+      return;
+    }
+
+    const invalid = ids.find((id) => !mongoose.isValidObjectId(id));
+
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid wishlist id: ${invalid}`,
+      });
+      return;
+    }
+
+    const wishlists = await Wishlist.find({ _id: { $in: ids } });
+    const subscriptions = [];
+
+    for (const id of ids) {
+      const wishlist = wishlists.find((w) => w._id.toString() === id);
+
+      if (!wishlist) {
+        res.status(404).json({
+          success: false,
+          message: `Wishlist ${id} not found`,
+        });
+        return;
+      }
+
+      const role = getWishlistRole(wishlist, userId);
+
+      if (!role && !(await canViewAsOutsider(wishlist, userId))) {
+        res.status(403).json({
+          success: false,
+          message: `You do not have access to wishlist ${id}`,
+        });
+        return;
+      }
+
+      subscriptions.push({ wishlistId: id, outsider: !role });
+    }
+
+    // Checked right before opening, with no await in between, so parallel requests can't overshoot
+    if (streamCountOf(userId) >= MAX_STREAMS_PER_USER) {
+      res.status(429).json({
+        success: false,
+        message: `You can have at most ${MAX_STREAMS_PER_USER} event streams open - close one first`,
+      });
+      return;
+    }
+
+    const lastEventId = req.headers['last-event-id'] || req.query.lastEventId;
+
+    const close = openStream(
+      res,
+      { _id: userId, username: req.user!.username },
+      subscriptions,
+      typeof lastEventId === 'string' ? lastEventId : undefined,
+      {
+        sessionAlive: () => sessionAlive(req.sessionId),
+        lostAccess: (followed) => lostAccess(userId, followed),
+      }
+    );
+
+    req.on('close', close);
+  } catch (error: any) {
+    console.error('Error opening event stream:', error);
+
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error opening event stream',
+    });
+  }
+};
+
+/**
+ * Who is viewing a wishlist right now (outsiders only get a count)
+ * GET /api/wishlists/:id/presence
+ */
+export const getPresence = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const viewers = viewersOf(req.wishlist!._id.toString());
+
+    res.json({
+      success: true,
+      count: viewers.length,
+      ...(req.wishlistRole && { viewers }),
+    });
+  } catch (error: any) {
+    console.error('Error fetching presence:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching presence',
+    });
+  }
+};
@@ -0,0 +1,210 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Wishlist from '../models/Wishlist';
+import { AuthRequest } from '../middleware/auth';
+import { getWishlistRole } from '../utils/permissions';
+import {
+  refId,
+  populatedUsername,
+  itemForViewer,
+  isItemPurchased,
+  sharedItemView,
+} from '../utils/wishlistView';
+import { friendIdsOf, blockedIdsFor } from '../utils/friends';
+import { convertAmount } from '../utils/currency';
+import { searchTerms, matchFields, Highlight } from '../utils/search';
+import { isValidCurrency, DEFAULT_CURRENCY } from '../config/currencies';
+
+// Lists pulled from the text index before ranking items
+const MAX_CANDIDATES = 200;
+
+interface SearchHit {
+  kind: 'wishlist' | 'item';
+  score: number;
+  wishlist: Record<string, any>;
+  item?: any;
+  highlights: Highlight[];
+}
+
+/**
+ * Search every wishlist I can open (mine, shared with me, friends' and public ones) and their items
+ * GET /api/search?q=headphones&type=&minPrice=&maxPrice=&currency=&purchased=&addedBy=&page=1&limit=20
+ */
+export const search = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    const q = String(req.query.q || '').trim();
+    const terms = searchTerms(q);
+
+    if (terms.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Please provide a search query (q)',
+      });
+      return;
+    }
+
+    // Filters
+    const { type, purchased } = req.query;
+    const minPrice = req.query.minPrice === undefined ? null : Number(req.query.minPrice);
+    const maxPrice = req.query.maxPrice === undefined ? null : Number(req.query.maxPrice);
+    const requestedCurrency = String(req.query.currency || '').toUpperCase();
+    const currency = isValidCurrency(requestedCurrency)
+      ? requestedCurrency
+      : req.user?.preferredCurrency || DEFAULT_CURRENCY;
+    const addedBy = req.query.addedBy === 'me' ? userId : req.query.addedBy;
+
+    if (type !== undefined && !['private', 'collaborative'].includes(String(type))) {
+      res.status(400).json({
+        success: false,
+        message: 'type must be private or collaborative',
+      });
+      return;
+    }
+
+    if ([minPrice, maxPrice].some((price) => price !== null && !Number.isFinite(price))) {
+      res.status(400).json({
+        success: false,
+        message: 'minPrice and maxPrice must be numbers',
+      });
+      return;
+    }
+
+    if (purchased !== undefined && !['true', 'false'].includes(String(purchased))) {
+      res.status(400).json({
+        success: false,
+        message: 'purchased must be true or false',
+      });
+      return;
+    }
+
+    if (addedBy !== undefined && !mongoose.isValidObjectId(addedBy)) {
+      res.status(400).json({
+        success: false,
+        message: 'addedBy must be a user ID or "me"',
+      });
+      return;
+    }
+
+    const filtersItems =
+      minPrice !== null || maxPrice !== null || purchased !== undefined || addedBy !== undefined;
+
+    // Candidates from the text index: lists I'm on, plus the ones outsiders may open
+    // (friends-only lists of my friends, public lists of anyone I'm not blocked from).
+    // Unlisted lists are only reachable through their share link.
+    const [friendIds, blockedIds] = await Promise.all([
+      friendIdsOf(userId!),
+      blockedIdsFor(userId!),
+    ]);
+
+    const filter: Record<string, any> = {
+      $text: { $search: q },
+      $or: [
+        { owner: userId },
+        { 'collaborators.user': userId },
+        { visibility: 'friends', owner: { $in: friendIds } },
+        { visibility: 'public', owner: { $nin: blockedIds } },
+      ],
+    };
+
+    if (type) filter.type = type;
+
+    const wishlists = await Wishlist.find(filter, { score: { $meta: 'textScore' } })
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(MAX_CANDIDATES)
+      .populate('owner', 'username');
+
+    // Rank lists and items
+    const hits: SearchHit[] = [];
+
+    wishlists.forEach((wishlist) => {
+      const role = getWishlistRole(wishlist, userId);
+      const outsider = role === null; // sees the shared view only
+      const summary = {
+        _id: wishlist._id,
+        name: wishlist.name,
+        type: wishlist.type,
+        visibility: wishlist.visibility,
+        owner: { username: populatedUsername(wishlist.owner) },
+        role,
+      };
+
+      // Item filters make list-level hits meaningless
+      if (!filtersItems) {
+        const match = matchFields(
+          { name: wishlist.name, description: wishlist.description },
+          terms
+        );
+
+        if (match.score > 0) {
+          hits.push({
+            kind: 'wishlist',
+            score: match.score,
+            wishlist: summary,
+            highlights: match.highlights,
+          });
+        }
+      }
+
+      wishlist.items.forEach((item) => {
+        // Who added what isn't part of the shared view
+        if (addedBy !== undefined && (outsider || refId(item.addedBy) !== String(addedBy))) return;
+
+        // Purchases are a surprise: owners can't filter their own lists by them,
+        // and outsiders never see claims at all
+        if (purchased !== undefined) {
+          if (role === 'owner' || outsider) return;
+          if (isItemPurchased(item) !== (purchased === 'true')) return;
+        }
+
+        if (minPrice !== null || maxPrice !== null) {
+          const price =
+            item.price === null ? null : convertAmount(item.price, item.currency, currency);
+
+          if (price === null) return;
+          if (minPrice !== null && price < minPrice) return;
+          if (maxPrice !== null && price > maxPrice) return;
+        }
+
+        const match = matchFields(
+          { name: item.name, description: item.description, url: item.url },
+          terms
+        );
+
+        if (match.score === 0) return;
+
+        hits.push({
+          kind: 'item',
+          score: match.score,
+          wishlist: summary,
+          item: outsider ? sharedItemView(item) : itemForViewer(wishlist, item, userId),
+          highlights: match.highlights,
+        });
+      });
+    });
+
+    hits.sort((a, b) => b.score - a.score);
+
+    // Page
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+    const page = Math.max(Number(req.query.page) || 1, 1);
+
+    res.json({
+      success: true,
+      query: q,
+      total: hits.length,
+      page,
+      limit,
+      results: hits.slice((page - 1) * limit, page * limit),
+    });
+  } catch (error: any) {
+    console.error('Error searching:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error searching',
+    });
+  }
+};
@@ -0,0 +1,166 @@
+import { Request, Response } from 'express';
+import Wishlist from '../models/Wishlist';
+import { WishlistRequest } from '../middleware/wishlistAccess';
+import { randomToken } from '../utils/tokens';
+import { isStaleSave, preconditionFailed } from '../utils/etag';
+import { sharedWishlistView } from '../utils/wishlistView';
+import { withPriceTotals } from '../utils/currency';
+import { isValidCurrency, DEFAULT_CURRENCY } from '../config/currencies';
+
+// ==========================================
+// SHARE LINKS (owner and managers)
+// ==========================================
+
+/**
+ * Generate a share link (returns the existing one if already shared)
+ * POST /api/wishlists/:id/share
+ */
+export const createShareLink = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+
+    // Private and friends-only lists can't be shared by link
+    if (!['unlisted', 'public'].includes(wishlist.visibility)) {
+      const label = wishlist.visibility === 'friends' ? 'friends-only' : wishlist.visibility;
+
+      res.status(400).json({
+        success: false,
+        message: `This wishlist is ${label}. Change it to unlisted or public first.`,
+      });
+      return;
+    }
+
+    if (!wishlist.shareToken) {
+      wishlist.shareToken = randomToken();
+      await wishlist.save();
+    }
+
+    res.json({
+      success: true,
+      message: 'Share link ready!',
+      shareToken: wishlist.shareToken,
+      sharePath: `/api/shared/${wishlist.shareToken}`,
+    });
+  } catch (error: any) {
+    console.error('Error creating share link:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error creating share link',
+    });
+  }
+};
+
+/**
+ * Replace the share link (old link stops working)
+ * POST /api/wishlists/:id/share/rotate
+ */
+export const rotateShareLink = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+
+    if (!wishlist.shareToken) {
+      res.status(400).json({
+        success: false,
+        message: 'This wishlist has no share link yet',
+      });
+      return;
+    }
+
+    wishlist.shareToken = randomToken();
+    await wishlist.save();
+
+    res.json({
+      success: true,
+      message: 'Share link rotated!',
+      shareToken: wishlist.shareToken,
+      sharePath: `/api/shared/${wishlist.shareToken}`,
+    });
+  } catch (error: any) {
+    console.error('Error rotating share link:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error rotating share link',
+    });
+  }
+};
+
+/**
+ * Revoke the share link
+ * DELETE /api/wishlists/:id/share
+ */
+export const revokeShareLink = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+
+    wishlist.shareToken = null;
+    await wishlist.save();
+
+    res.json({
+      success: true,
+      message: 'Share link revoked!',
+    });
+  } catch (error: any) {
+    if (isStaleSave(error)) {
+      preconditionFailed(res, 'wishlist');
+      return;
+    }
+
+    console.error('Error revoking share link:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error revoking share link',
+    });
+  }
+};
+
+// ==========================================
+// SHARED VIEW (public)
+// ==========================================
+
+/**
+ * Get a read-only wishlist through its share link
+ * GET /api/shared/:token?currency=EUR
+ */
+export const getSharedWishlist = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = await Wishlist.findOne({
+      shareToken: req.params.token,
+      visibility: { $in: ['unlisted', 'public'] },
+    }).populate('owner', 'username');
+
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        message: 'Shared wishlist not found',
+      });
+      return;
+    }
+
+    // Anonymous viewers pick a display currency with ?currency=
+    const requested = String(req.query.currency || '').toUpperCase();
+    const currency = isValidCurrency(requested) ? requested : DEFAULT_CURRENCY;
+
+    res.json({
+      success: true,
+      wishlist: withPriceTotals(sharedWishlistView(wishlist), currency),
+    });
+  } catch (error: any) {
+    console.error('Error fetching shared wishlist:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching shared wishlist',
+    });
+  }
+};
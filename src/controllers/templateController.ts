@@ -0,0 +1,331 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Wishlist from '../models/Wishlist';
+import Template from '../models/Template';
+import { AuthRequest } from '../middleware/auth';
+import { WishlistRequest } from '../middleware/wishlistAccess';
+import { actorFrom, emitWishlistEvent } from '../utils/events';
+import { diffFields, snapshot, WISHLIST_FIELDS } from '../utils/activity';
+import { refId, sortedItems, wishlistForViewer } from '../utils/wishlistView';
+import { occasionWithDefaults } from '../utils/occasions';
+import { importedItem } from '../utils/importExport';
+import {
+  listTemplates,
+  findTemplate,
+  templateSummary,
+  templateItemsFrom,
+  clonedItem,
+} from '../utils/templates';
+import { DEFAULT_CURRENCY } from '../config/currencies';
+import { CloneBody, SaveTemplateBody, UseTemplateBody } from '../schemas/wishlist';
+
+// Room for " (copy)" within the 100 character name limit
+const copyName = (name: string): string => `${name.slice(0, 93)} (copy)`;
+
+// ==========================================
+// CLONING
+// ==========================================
+
+/**
+ * Clone a wishlist into a new one I own. Items keep their details (and price
+ * history, if the list was mine already); claims, pledges and price alerts start over.
+ * Only the owner can bring the collaborators along.
+ * POST /api/wishlists/:id/clone
+ * Body: { name?, keepCollaborators?: boolean, occasion? }
+ */
+export const cloneWishlist = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const source = req.wishlist!;
+    const userId = req.user!._id;
+    const isOwner = refId(source.owner) === userId;
+    const body = req.body as CloneBody;
+    const { name, keepCollaborators = false } = body;
+
+    if (keepCollaborators && !isOwner) {
+      res.status(403).json({
+        success: false,
+        message: 'Only the owner can copy collaborators to a new wishlist',
+      });
+      return;
+    }
+
+    const occasion =
+      body.occasion === undefined
+        ? // Recurring occasions still apply; a one-off date has been and gone
+          source.occasion?.recurrence === 'yearly'
+          ? source.occasion
+          : null
+        : occasionWithDefaults(body.occasion);
+
+    const collaborators = keepCollaborators
+      ? source.collaborators.map((c) => ({ user: c.user, role: c.role, addedAt: new Date() }))
+      : [];
+
+    // Items stay credited to whoever added them, if that person is on the new list
+    const members = new Set([userId, ...collaborators.map((c) => refId(c.user))]);
+    const me = new mongoose.Types.ObjectId(userId);
+
+    const clone = await Wishlist.create({
+      name: name || copyName(source.name),
+      description: source.description,
+      owner: userId,
+      type: source.type,
+      // Someone else's public list doesn't become public under my name
+      visibility: isOwner ? source.visibility : 'private',
+      items: sortedItems(source.items).map((item, position) =>
+        clonedItem(item, members.has(refId(item.addedBy)) ? item.addedBy : me, position, isOwner)
+      ),
+      collaborators,
+      occasion: occasion && {
+        type: occasion.type,
+        date: occasion.date,
+        recurrence: occasion.recurrence,
+        remindDaysBefore: occasion.remindDaysBefore,
+        lastReminder: null,
+      },
+    });
+
+    emitWishlistEvent({
+      type: 'wishlist.created',
+      wishlist: clone,
+      actor: actorFrom(req),
+      changes: [
+        ...diffFields({}, snapshot(clone, WISHLIST_FIELDS), WISHLIST_FIELDS),
+        { field: 'clonedFrom', before: null, after: source.name },
+      ],
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Wishlist cloned as ${clone.name}!`,
+      wishlist: wishlistForViewer(clone, userId),
+    });
+  } catch (error: any) {
+    console.error('Error cloning wishlist:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error cloning wishlist',
+    });
+  }
+};
+
+// ==========================================
+// TEMPLATES
+// ==========================================
+
+/**
+ * Save a wishlist as one of my templates (items only - no people, claims or history)
+ * POST /api/wishlists/:id/template
+ * Body: { name?, description? }
+ */
+export const saveAsTemplate = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const { name, description } = req.body as SaveTemplateBody;
+
+    const template = await Template.create({
+      name: name || wishlist.name,
+      description: description ?? wishlist.description,
+      owner: req.user?._id,
+      type: wishlist.type,
+      occasionType: wishlist.occasion?.type ?? null,
+      items: templateItemsFrom(wishlist.items),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Saved ${template.name} as a template!`,
+      template,
+    });
+  } catch (error: any) {
+    console.error('Error saving template:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error saving template',
+    });
+  }
+};
+
+/**
+ * Browse templates: the system ones and my own
+ * GET /api/templates?source=system|user
+ */
+export const getTemplates = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { source } = req.query;
+
+    if (source !== undefined && !['system', 'user'].includes(String(source))) {
+      res.status(400).json({
+        success: false,
+        message: 'source must be system or user',
+      });
+      return;
+    }
+
+    const templates = (
+      await listTemplates(req.user!._id, req.user?.preferredCurrency || DEFAULT_CURRENCY)
+    ).filter((template) => source === undefined || template.source === source);
+
+    res.json({
+      success: true,
+      count: templates.length,
+      templates: templates.map(templateSummary),
+    });
+  } catch (error: any) {
+    console.error('Error fetching templates:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching templates',
+    });
+  }
+};
+
+/**
+ * Get one template with its items
+ * GET /api/templates/:templateId
+ */
+export const getTemplate = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const template = await findTemplate(
+      String(req.params.templateId),
+      req.user!._id,
+      req.user?.preferredCurrency || DEFAULT_CURRENCY
+    );
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        message: 'Template not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      template,
+    });
+  } catch (error: any) {
+    console.error('Error fetching template:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching template',
+    });
+  }
+};
+
+/**
+ * Delete one of my templates (system templates can't be deleted)
+ * DELETE /api/templates/:templateId
+ */
+export const deleteTemplate = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const templateId = String(req.params.templateId);
+
+    const template = mongoose.isValidObjectId(templateId)
+      ? await Template.findOneAndDelete({ _id: templateId, owner: req.user?._id })
+      : null;
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        message: 'Template not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Template deleted',
+    });
+  } catch (error: any) {
+    console.error('Error deleting template:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error deleting template',
+    });
+  }
+};
+
+/**
+ * Start a new wishlist from a template
+ * POST /api/templates/:templateId/use
+ * Body: { name?, description?, type?, visibility?, occasion? } (occasion type defaults to the template's)
+ */
+export const useTemplate = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user!._id;
+    const template = await findTemplate(
+      String(req.params.templateId),
+      userId,
+      req.user?.preferredCurrency || DEFAULT_CURRENCY
+    );
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        message: 'Template not found',
+      });
+      return;
+    }
+
+    const body = req.body as UseTemplateBody;
+    const { name, description, type = template.type, visibility = 'private' } = body;
+
+    const occasion = body.occasion
+      ? occasionWithDefaults({ type: template.occasionType ?? undefined, ...body.occasion })
+      : null;
+
+    const wishlist = await Wishlist.create({
+      name: name || template.name,
+      description: description ?? template.description,
+      owner: userId,
+      type,
+      visibility,
+      items: sortedItems(template.items).map((item, position) =>
+        importedItem(item, userId, position)
+      ),
+      collaborators: [],
+      occasion: occasion && { ...occasion, lastReminder: null },
+    });
+
+    emitWishlistEvent({
+      type: 'wishlist.created',
+      wishlist,
+      actor: actorFrom(req),
+      changes: [
+        ...diffFields({}, snapshot(wishlist, WISHLIST_FIELDS), WISHLIST_FIELDS),
+        { field: 'template', before: null, after: template.name },
+      ],
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Created ${wishlist.name} from the ${template.name} template!`,
+      wishlist: wishlistForViewer(wishlist, userId),
+    });
+  } catch (error: any) {
+    console.error('Error using template:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error using template',
+    });
+  }
+};
@@ -0,0 +1,311 @@
+import { Response } from 'express';
+import Wishlist from '../models/Wishlist';
+import Invitation from '../models/Invitation';
+import { AuthRequest } from '../middleware/auth';
+import { WishlistRequest } from '../middleware/wishlistAccess';
+import { canModifyItem } from '../utils/permissions';
+import { actorFrom, emitWishlistEvent } from '../utils/events';
+import { diffFields, snapshot, ITEM_FIELDS } from '../utils/activity';
+import { itemForViewer, wishlistForViewer, nextPosition } from '../utils/wishlistView';
+import { purgeDate, restoredCopy } from '../utils/trash';
+import { hasIfMatch, preconditionFailed } from '../utils/etag';
+
+/**
+ * Find an item in a wishlist's trash
+ */
+const findTrashedItem = (req: WishlistRequest) => {
+  return req.wishlist!.trashedItems.find((i) => i._id?.toString() === req.params.itemId);
+};
+
+// ==========================================
+// WISHLISTS
+// ==========================================
+
+/**
+ * Get the wishlists in my trash
+ * GET /api/trash
+ */
+export const getTrash = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlists = await Wishlist.find({ owner: req.user?._id, deletedAt: { $ne: null } })
+      .populate('deletedBy', 'username')
+      .sort({ deletedAt: -1 });
+
+    res.json({
+      success: true,
+      count: wishlists.length,
+      wishlists: wishlists.map((wishlist) => ({
+        _id: wishlist._id,
+        name: wishlist.name,
+        description: wishlist.description,
+        type: wishlist.type,
+        itemCount: wishlist.items.length,
+        deletedAt: wishlist.deletedAt,
+        deletedBy: wishlist.deletedBy,
+        purgeAt: purgeDate(wishlist.deletedAt!),
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error fetching trash:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching trash',
+    });
+  }
+};
+
+/**
+ * Restore a wishlist from my trash
+ * POST /api/trash/:id/restore
+ */
+export const restoreWishlist = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = await Wishlist.findOneAndUpdate(
+      { _id: req.params.id, owner: req.user?._id, deletedAt: { $ne: null } },
+      { $set: { deletedAt: null, deletedBy: null } },
+      { new: true }
+    );
+
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        message: 'Wishlist not found in the trash',
+      });
+      return;
+    }
+
+    emitWishlistEvent({
+      type: 'wishlist.restored',
+      wishlist,
+      actor: actorFrom(req),
+    });
+
+    res.json({
+      success: true,
+      message: `${wishlist.name} restored!`,
+      wishlist: wishlistForViewer(wishlist, req.user?._id),
+    });
+  } catch (error: any) {
+    console.error('Error restoring wishlist:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error restoring wishlist',
+    });
+  }
+};
+
+/**
+ * Permanently delete a wishlist from my trash
+ * DELETE /api/trash/:id
+ */
+export const purgeWishlist = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = await Wishlist.findOneAndDelete({
+      _id: req.params.id,
+      owner: req.user?._id,
+      deletedAt: { $ne: null },
+    });
+
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        message: 'Wishlist not found in the trash',
+      });
+      return;
+    }
+
+    await Invitation.deleteMany({ wishlist: wishlist._id });
+
+    res.json({
+      success: true,
+      message: 'Wishlist permanently deleted',
+    });
+  } catch (error: any) {
+    console.error('Error purging wishlist:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error purging wishlist',
+    });
+  }
+};
+
+// ==========================================
+// ITEMS
+// ==========================================
+
+/**
+ * Get the deleted items of a wishlist
+ * GET /api/wishlists/:id/trash
+ */
+export const getItemTrash = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+
+    const items = [...wishlist.trashedItems]
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime())
+      .map((item) => ({
+        ...itemForViewer(wishlist, item, req.user?._id),
+        purgeAt: purgeDate(item.deletedAt!),
+      }));
+
+    res.json({
+      success: true,
+      count: items.length,
+      items,
+    });
+  } catch (error: any) {
+    console.error('Error fetching item trash:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error fetching item trash',
+    });
+  }
+};
+
+/**
+ * Restore a deleted item to the end of the list (needs the same rights as deleting it)
+ * POST /api/wishlists/:id/trash/:itemId/restore
+ */
+export const restoreItem = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const userId = req.user?._id;
+    const trashed = findTrashedItem(req);
+
+    if (!trashed) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found in the trash',
+      });
+      return;
+    }
+
+    if (!canModifyItem(req.wishlistRole, trashed, userId, 'delete')) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to restore this item',
+      });
+      return;
+    }
+
+    const updated = await Wishlist.findOneAndUpdate(
+      { _id: wishlist._id, 'trashedItems._id': trashed._id },
+      {
+        $pull: { trashedItems: { _id: trashed._id } },
+        $push: { items: restoredCopy(trashed, nextPosition(wishlist.items)) }, // at the end
+        $inc: { version: 1 },
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found in the trash',
+      });
+      return;
+    }
+
+    const item = updated.items.find((i) => i._id?.equals(trashed._id))!;
+
+    emitWishlistEvent({
+      type: 'item.restored',
+      wishlist: updated,
+      actor: actorFrom(req),
+      item: { _id: item._id!.toString(), name: item.name },
+      changes: diffFields({}, snapshot(item, ITEM_FIELDS), ITEM_FIELDS),
+    });
+
+    res.json({
+      success: true,
+      message: `${item.name} restored!`,
+      item: itemForViewer(updated, item, userId),
+    });
+  } catch (error: any) {
+    console.error('Error restoring item:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error restoring item',
+    });
+  }
+};
+
+/**
+ * Permanently delete an item from the trash (same rights as deleting it)
+ * DELETE /api/wishlists/:id/trash/:itemId
+ */
+export const purgeItem = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const trashed = findTrashedItem(req);
+
+    if (!trashed) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found in the trash',
+      });
+      return;
+    }
+
+    if (!canModifyItem(req.wishlistRole, trashed, req.user?._id, 'delete')) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to delete this item',
+      });
+      return;
+    }
+
+    // With If-Match, only the version the client saw
+    const updated = await Wishlist.findOneAndUpdate(
+      {
+        _id: wishlist._id,
+        trashedItems: {
+          $elemMatch: { _id: trashed._id, ...(hasIfMatch(req) && { version: trashed.version }) },
+        },
+      },
+      { $pull: { trashedItems: { _id: trashed._id } }, $inc: { version: 1 } }
+    );
+
+    if (!updated) {
+      if (hasIfMatch(req)) {
+        preconditionFailed(res, 'item');
+        return;
+      }
+
+      res.status(404).json({
+        success: false,
+        message: 'Item not found in the trash',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Item permanently deleted',
+    });
+  } catch (error: any) {
+    console.error('Error purging item:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error purging item',
+    });
+  }
+};
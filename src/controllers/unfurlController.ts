@@ -0,0 +1,47 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { unfurlUrl } from '../utils/unfurl';
+import { FetchError } from '../utils/safeFetch';
+
+/**
+ * Preview the product details found at a URL (before adding an item)
+ * POST /api/unfurl
+ */
+export const previewUrl = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { url } = req.body;
+
+    if (!url || typeof url !== 'string') {
+      res.status(400).json({
+        success: false,
+        message: 'URL is required',
+      });
+      return;
+    }
+
+    const metadata = await unfurlUrl(url);
+
+    res.json({
+      success: true,
+      metadata,
+    });
+  } catch (error: any) {
+    // Bad or unreachable URLs are the caller's problem, not ours
+    if (error instanceof FetchError || error.code) {
+      res.status(422).json({
+        success: false,
+        message: `Could not read that page: ${error.message}`,
+      });
+      return;
+    }
+
+    console.error('Error unfurling URL:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error unfurling URL',
+    });
+  }
+};
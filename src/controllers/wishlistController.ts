@@ -1,7 +1,86 @@
 import { Response } from 'express';
-import Wishlist from '../models/Wishlist';
+import Wishlist, { NewItem, ITEM_PRIORITIES } from '../models/Wishlist';
 import User from '../models/User';
+import Invitation from '../models/Invitation';
 import { AuthRequest } from '../middleware/auth';
+import { WishlistRequest } from '../middleware/wishlistAccess';
+import {
+  wishlistForViewer,
+  itemForViewer,
+  sharedWishlistView,
+  remainingQuantity,
+  nextPosition,
+  refId,
+} from '../utils/wishlistView';
+import { randomToken, hashToken } from '../utils/tokens';
+import { inviteExpiryDate, sendInvitationEmail } from '../utils/invitations';
+import { roleCan, canModifyItem } from '../utils/permissions';
+import { actorFrom, emitWishlistEvent } from '../utils/events';
+import { diffFields, snapshot, WISHLIST_FIELDS, ITEM_FIELDS } from '../utils/activity';
+import { unfurlUrl, UrlMetadata } from '../utils/unfurl';
+import { recordPrice, priceUpdate } from '../utils/priceTracking';
+import { recheckFundedAt } from '../utils/groupGift';
+import { withPriceTotals } from '../utils/currency';
+import { isValidCurrency, DEFAULT_CURRENCY } from '../config/currencies';
+import { listQueryFrom, findPage, paginateArray, PageInfo } from '../utils/pagination';
+import { occasionWithDefaults, describeOccasion } from '../utils/occasions';
+import { trashedCopy, purgeDate } from '../utils/trash';
+import {
+  wishlistETag,
+  itemETag,
+  hasIfMatch,
+  isStaleSave,
+  preconditionFailed,
+} from '../utils/etag';
+import {
+  CreateWishlistBody,
+  UpdateWishlistBody,
+  MyWishlistsQuery,
+  WishlistQuery,
+  MY_WISHLISTS_LIST_OPTIONS,
+  ITEM_LIST_OPTIONS,
+  AddItemBody,
+  UpdateItemBody,
+  ClaimBody,
+  ReleaseQuery,
+  InviteBody,
+  CollaboratorRoleBody,
+} from '../schemas/wishlist';
+
+/**
+ * Filter, sort and paginate the items of a wishlist view in place
+ * (?priority=&addedBy=&sort=position&limit=50&cursor=)
+ */
+const pageItems = (req: AuthRequest, view: any): PageInfo => {
+  const query = req.query as WishlistQuery;
+  const listQuery = listQueryFrom(query, ITEM_LIST_OPTIONS);
+  const { priority, addedBy: requested } = query;
+  const addedBy = requested === 'me' ? req.user?._id : requested;
+
+  const items = view.items.filter(
+    (item: any) =>
+      (priority === undefined || item.priority === priority) &&
+      (addedBy === undefined || refId(item.addedBy) === addedBy)
+  );
+
+  // Priorities sort by rank, not alphabetically
+  const { page, pageInfo } = paginateArray(items, listQuery, (item: any, field) =>
+    field === 'priority' ? ITEM_PRIORITIES.indexOf(item.priority) : item[field]
+  );
+
+  view.items = page;
+
+  return pageInfo;
+};
+
+/**
+ * Currency to show prices in: ?currency= wins, else the user's preference
+ */
+const displayCurrencyFor = (req: AuthRequest): string => {
+  const { currency } = req.query as WishlistQuery | MyWishlistsQuery;
+
+  return currency || req.user?.preferredCurrency || DEFAULT_CURRENCY;
+};
 
 // ==========================================
 // WISHLIST CRUD
@@ -16,25 +95,10 @@ export const createWishlist = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { name, description, type } = req.body;
-
-    // Validation
-    if (!name) {
-      res.status(400).json({
-        success: false,
-        message: 'Wishlist name is required',
-      });
-      return;
-    }
+    const body = req.body as CreateWishlistBody;
+    const { name, description, type, visibility } = body;
 
-    // Validate type
-    if (type && !['private', 'collaborative'].includes(type)) {
-      res.status(400).json({
-        success: false,
-        message: 'Type must be either private or collaborative',
-      });
-      return;
-    }
+    const occasion = body.occasion === undefined ? null : occasionWithDefaults(body.occasion);
 
     // Create wishlist
     const wishlist = await Wishlist.create({
@@ -42,9 +106,17 @@ export const createWishlist = async (
       description: description || '',
       owner: req.user?._id,
       type: type || 'private',
+      visibility: visibility || 'private',
       items: [],
       collaborators: [],
-      pendingInvites: [],
+      occasion: occasion && { ...occasion, lastReminder: null },
+    });
+
+    emitWishlistEvent({
+      type: 'wishlist.created',
+      wishlist,
+      actor: actorFrom(req),
+      changes: diffFields({}, snapshot(wishlist, WISHLIST_FIELDS), WISHLIST_FIELDS),
     });
 
     res.status(201).json({
@@ -63,7 +135,7 @@ export const createWishlist = async (
 
 /**
  * Get all wishlists for current user
- * GET /api/wishlists
+ * GET /api/wishlists?role=owner|collaborator&type=&visibility=&archived=&updatedSince=&sort=-createdAt&limit=20&cursor=
  */
 export const getMyWishlists = async (
   req: AuthRequest,
@@ -71,22 +143,38 @@ export const getMyWishlists = async (
 ): Promise<void> => {
   try {
     const userId = req.user?._id;
+    const { role, type, visibility, updatedSince, archived } = req.query as MyWishlistsQuery;
+    const listQuery = listQueryFrom(req.query as MyWishlistsQuery, MY_WISHLISTS_LIST_OPTIONS);
 
     // Get wishlists where user is owner OR collaborator
-    const wishlists = await Wishlist.find({
-      $or: [
-        { owner: userId },
-        { collaborators: userId }
-      ],
-    })
-      .populate('owner', 'username email')
-      .populate('collaborators', 'username email')
-      .sort({ createdAt: -1 }); // Newest first
+    const filter: Record<string, any> =
+      role === 'owner'
+        ? { owner: userId }
+        : role === 'collaborator'
+          ? { 'collaborators.user': userId }
+          : { $or: [{ owner: userId }, { 'collaborators.user': userId }] };
+
+    if (type !== undefined) filter.type = type;
+    if (visibility !== undefined) filter.visibility = visibility;
+
+    // Archived lists stay out of the way unless asked for
+    filter.archivedAt = archived ? { $ne: null } : null;
+
+    if (updatedSince !== undefined) filter.updatedAt = { $gte: updatedSince };
+
+    const { docs: wishlists, pageInfo } = await findPage(Wishlist, filter, listQuery, (query) =>
+      query
+        .populate('owner', 'username email')
+        .populate('collaborators.user', 'username email')
+    );
 
     res.json({
       success: true,
       count: wishlists.length,
-      wishlists,
+      wishlists: wishlists.map((w) =>
+        withPriceTotals(wishlistForViewer(w, userId), displayCurrencyFor(req))
+      ),
+      pagination: pageInfo,
     });
   } catch (error: any) {
     console.error('Error fetching wishlists:', error);
@@ -102,42 +190,40 @@ export const getMyWishlists = async (
  * GET /api/wishlists/:id
  */
 export const getWishlist = async (
-  req: AuthRequest,
+  req: WishlistRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const wishlist = await Wishlist.findById(req.params.id)
-      .populate('owner', 'username email')
-      .populate('collaborators', 'username email')
-      .populate('items.addedBy', 'username');
-
-    // Check if wishlist exists
-    if (!wishlist) {
-      res.status(404).json({
-        success: false,
-        message: 'Wishlist not found',
-      });
-      return;
-    }
-
-    // Check if user has access
-    const userId = req.user?._id;
-    const isOwner = wishlist.owner._id.toString() === userId;
-    const isCollaborator = wishlist.collaborators.some(
-      (c: any) => c._id.toString() === userId
+    const wishlist = await req.wishlist!.populate([
+      { path: 'owner', select: 'username email' },
+      { path: 'collaborators.user', select: 'username email' },
+      { path: 'items.addedBy', select: 'username' },
+      { path: 'items.fulfilments.user', select: 'username' },
+    ]);
+
+    // Public and friends-only lists are readable by outsiders, but only the shared view.
+    // Totals cover the whole list, so they're added before paging.
+    const view = withPriceTotals(
+      req.wishlistRole
+        ? wishlistForViewer(wishlist, req.user?._id)
+        : sharedWishlistView(wishlist),
+      displayCurrencyFor(req)
     );
 
-    if (!isOwner && !isCollaborator) {
-      res.status(403).json({
-        success: false,
-        message: 'You do not have access to this wishlist',
-      });
-      return;
+    // Members edit items with If-Match, so each item carries the ETag to send
+    if (req.wishlistRole) {
+      view.items = view.items.map((item: any) => ({ ...item, etag: itemETag(item) }));
     }
 
+    const pageInfo = pageItems(req, view);
+
+    // The ETag is for If-Match; claims change without it, so nothing may be cached on it
+    res.set({ ETag: wishlistETag(wishlist), 'Cache-Control': 'no-store' });
     res.json({
       success: true,
-      wishlist,
+      ...(req.wishlistRole && { role: req.wishlistRole }),
+      wishlist: view,
+      pagination: pageInfo,
     });
   } catch (error: any) {
     console.error('Error fetching wishlist:', error);
@@ -153,45 +239,71 @@ export const getWishlist = async (
  * PUT /api/wishlists/:id
  */
 export const updateWishlist = async (
-  req: AuthRequest,
+  req: WishlistRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const wishlist = await Wishlist.findById(req.params.id);
+    const wishlist = req.wishlist!;
 
-    if (!wishlist) {
-      res.status(404).json({
-        success: false,
-        message: 'Wishlist not found',
-      });
-      return;
-    }
-
-    // Only owner can update wishlist settings
-    if (wishlist.owner.toString() !== req.user?._id) {
-      res.status(403).json({
-        success: false,
-        message: 'Only the owner can update this wishlist',
-      });
-      return;
-    }
+    const body = req.body as UpdateWishlistBody;
+    const { name, description, type, visibility, archived } = body;
+    const before = snapshot(wishlist, WISHLIST_FIELDS);
+    const occasionBefore = describeOccasion(wishlist.occasion);
 
-    const { name, description, type } = req.body;
+    const occasion = body.occasion === undefined ? undefined : occasionWithDefaults(body.occasion);
 
     if (name) wishlist.name = name;
     if (description !== undefined) wishlist.description = description;
-    if (type && ['private', 'collaborative'].includes(type)) {
-      wishlist.type = type;
+    if (type) wishlist.type = type;
+    if (visibility) {
+      wishlist.visibility = visibility;
+
+      // Going private or friends-only kills any outstanding share link
+      if (['private', 'friends'].includes(visibility)) wishlist.shareToken = null;
+    }
+    if (occasion !== undefined) {
+      // A new date starts the reminders over
+      const sameDate = describeOccasion(occasion) === occasionBefore;
+
+      wishlist.occasion = occasion && {
+        ...occasion,
+        lastReminder: sameDate ? wishlist.occasion?.lastReminder ?? null : null,
+      };
+    }
+    if (archived !== undefined) {
+      wishlist.archivedAt = archived ? wishlist.archivedAt || new Date() : null;
     }
 
     await wishlist.save();
 
+    const changes = diffFields(before, snapshot(wishlist, WISHLIST_FIELDS), WISHLIST_FIELDS);
+    const occasionAfter = describeOccasion(wishlist.occasion);
+
+    if (occasionBefore !== occasionAfter) {
+      changes.push({ field: 'occasion', before: occasionBefore, after: occasionAfter });
+    }
+
+    if (changes.length > 0) {
+      emitWishlistEvent({
+        type: 'wishlist.updated',
+        wishlist,
+        actor: actorFrom(req),
+        changes,
+      });
+    }
+
+    res.set('ETag', wishlistETag(wishlist));
     res.json({
       success: true,
       message: 'Wishlist updated successfully!',
-      wishlist,
+      wishlist: wishlistForViewer(wishlist, req.user?._id),
     });
   } catch (error: any) {
+    if (isStaleSave(error)) {
+      preconditionFailed(res, 'wishlist');
+      return;
+    }
+
     console.error('Error updating wishlist:', error);
     res.status(500).json({
       success: false,
@@ -201,41 +313,38 @@ export const updateWishlist = async (
 };
 
 /**
- * Delete wishlist
+ * Delete wishlist (moves it to the owner's trash - see trashController)
  * DELETE /api/wishlists/:id
  */
 export const deleteWishlist = async (
-  req: AuthRequest,
+  req: WishlistRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const wishlist = await Wishlist.findById(req.params.id);
-
-    if (!wishlist) {
-      res.status(404).json({
-        success: false,
-        message: 'Wishlist not found',
-      });
-      return;
-    }
+    const wishlist = req.wishlist!;
 
-    // Only owner can delete
-    if (wishlist.owner.toString() !== req.user?._id) {
-      res.status(403).json({
-        success: false,
-        message: 'Only the owner can delete this wishlist',
-      });
-      return;
-    }
+    wishlist.deletedAt = new Date();
+    wishlist.deletedBy = new mongoose.Types.ObjectId(req.user!._id);
+    await wishlist.save();
 
-    await Wishlist.findByIdAndDelete(req.params.id);
+    emitWishlistEvent({
+      type: 'wishlist.deleted',
+      wishlist,
+      actor: actorFrom(req),
+    });
 
     res.json({
       success: true,
-      message: 'Wishlist deleted successfully!',
-      wishlist,
+      message: 'Wishlist moved to the trash',
+      purgeAt: purgeDate(wishlist.deletedAt),
+      wishlist: wishlistForViewer(wishlist, req.user?._id),
     });
   } catch (error: any) {
+    if (isStaleSave(error)) {
+      preconditionFailed(res, 'wishlist');
+      return;
+    }
+
     console.error('Error deleting wishlist:', error);
     res.status(500).json({
       success: false,
@@ -253,38 +362,45 @@ export const deleteWishlist = async (
  * POST /api/wishlists/:id/items
  */
 export const addItem = async (
-  req: AuthRequest,
+  req: WishlistRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const wishlist = await Wishlist.findById(req.params.id);
-
-    if (!wishlist) {
-      res.status(404).json({
-        success: false,
-        message: 'Wishlist not found',
-      });
-      return;
-    }
-
-    // Check access (owner or collaborator)
+    const wishlist = req.wishlist!;
     const userId = req.user?._id;
-    const isOwner = wishlist.owner.toString() === userId;
-    const isCollaborator = wishlist.collaborators
-      .map((c) => c.toString())
-      .includes(userId || '');
 
-    if (!isOwner && !isCollaborator) {
-      res.status(403).json({
-        success: false,
-        message: 'You do not have access to this wishlist',
-      });
-      return;
+    const {
+      name,
+      description,
+      price,
+      currency,
+      quantity,
+      priority,
+      url,
+      autofill = true,
+    } = req.body as AddItemBody;
+
+    // Look the product up; whatever the user typed still wins
+    let metadata: UrlMetadata | null = null;
+
+    if (url && autofill) {
+      try {
+        metadata = await unfurlUrl(url);
+      } catch (error: any) {
+        console.warn(`Could not unfurl ${url}:`, error.message);
+      }
     }
 
-    const { name, description, price, url } = req.body;
+    const itemName = name || metadata?.title?.slice(0, 100);
+
+    // A scraped price comes with its own currency
+    const itemCurrency =
+      currency ||
+      (!price && isValidCurrency(metadata?.currency) ? metadata!.currency : null) ||
+      req.user?.preferredCurrency ||
+      DEFAULT_CURRENCY;
 
-    if (!name) {
+    if (!itemName) {
       res.status(400).json({
         success: false,
         message: 'Item name is required',
@@ -292,24 +408,68 @@ export const addItem = async (
       return;
     }
 
-    // Add item to wishlist
-    wishlist.items.push({
-      name,
-      description: description || '',
-      price: price || null,
+    const newItem: NewItem = {
+      _id: new mongoose.Types.ObjectId(),
+      name: itemName,
+      description: description || metadata?.description || '',
+      price: price || metadata?.price || null,
+      currency: itemCurrency,
       url: url || '',
-      isPurchased: false,
+      imageUrl: metadata?.image || '',
+      metadata: metadata && {
+        title: metadata.title,
+        description: metadata.description,
+        image: metadata.image,
+        price: metadata.price,
+        currency: metadata.currency,
+        siteName: metadata.siteName,
+        fetchedAt: metadata.fetchedAt,
+      },
+      priceHistory: [],
+      priceWatches: [],
+      position: nextPosition(wishlist.items),
+      quantity: quantity === undefined ? 1 : quantity,
+      priority: priority || 'normal',
+      fulfilments: [],
+      fulfilledQuantity: 0,
       addedBy: new mongoose.Types.ObjectId(userId),
+      version: 0,
       createdAt: new Date(),
-    });
+    };
 
-    await wishlist.save();
+    recordPrice(newItem, newItem.price, price ? 'manual' : 'refresh', userId);
+
+    // Push atomically so concurrent edits elsewhere on the list survive
+    const updated = await Wishlist.findOneAndUpdate(
+      { _id: wishlist._id },
+      { $push: { items: newItem }, $inc: { version: 1 } },
+      { new: true, runValidators: true }
+    );
 
+    if (!updated) {
+      res.status(404).json({
+        success: false,
+        message: 'Wishlist not found',
+      });
+      return;
+    }
+
+    const added = updated.items.find((i) => i._id?.equals(newItem._id))!;
+
+    emitWishlistEvent({
+      type: 'item.added',
+      wishlist: updated,
+      actor: actorFrom(req),
+      item: { _id: added._id!.toString(), name: added.name },
+      changes: diffFields({}, snapshot(added, ITEM_FIELDS), ITEM_FIELDS),
+    });
+
+    res.set('ETag', itemETag(added));
     res.status(201).json({
       success: true,
       message: 'Item added successfully!',
-      item: wishlist.items[wishlist.items.length - 1],
-      wishlist,
+      item: itemForViewer(updated, added, userId),
+      wishlist: wishlistForViewer(updated, userId),
     });
   } catch (error: any) {
     console.error('Error adding item:', error);
@@ -325,63 +485,184 @@ export const addItem = async (
  * PUT /api/wishlists/:id/items/:itemId
  */
 export const updateItem = async (
-  req: AuthRequest,
+  req: WishlistRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const wishlist = await Wishlist.findById(req.params.id);
+    const wishlist = req.wishlist!;
+    const userId = req.user?._id;
 
-    if (!wishlist) {
+    // Find the item
+    const item = wishlist.items.find(
+      (i) => i._id?.toString() === req.params.itemId
+    );
+
+    if (!item) {
       res.status(404).json({
         success: false,
-        message: 'Wishlist not found',
+        message: 'Item not found',
       });
       return;
     }
 
-    // Check access
-    const userId = req.user?._id;
-    const isOwner = wishlist.owner.toString() === userId;
-    const isCollaborator = wishlist.collaborators
-      .map((c) => c.toString())
-      .includes(userId || '');
-
-    if (!isOwner && !isCollaborator) {
+    // Update fields
+    const {
+      name,
+      description,
+      price,
+      currency,
+      quantity,
+      priority,
+      url,
+      isPurchased,
+    } = req.body as UpdateItemBody;
+
+    // Only a giver holding a claim can mark their units purchased
+    const fulfilment = item.fulfilments.find((f) => f.user.toString() === userId);
+
+    if (isPurchased !== undefined && !fulfilment) {
       res.status(403).json({
         success: false,
-        message: 'You do not have access to this wishlist',
+        message: 'Claim this item before marking it as purchased',
       });
       return;
     }
 
-    // Find the item
-    const item = wishlist.items.find(
-  (i) => i._id?.toString() === req.params.itemId
-);
+    // Editing details depends on who added the item
+    const editsDetails = [name, description, price, currency, quantity, priority, url].some(
+      (field) => field !== undefined
+    );
 
-    if (!item) {
-      res.status(404).json({
+    if (editsDetails && !canModifyItem(req.wishlistRole, item, userId, 'edit')) {
+      res.status(403).json({
         success: false,
-        message: 'Item not found',
+        message: 'You do not have permission to edit this item',
       });
       return;
     }
 
-    // Update fields
-    const { name, description, price, url, isPurchased } = req.body;
+    const before = snapshot(item, ITEM_FIELDS);
+    const wasPurchased = fulfilment?.purchased;
 
     if (name) item.name = name;
     if (description !== undefined) item.description = description;
     if (price !== undefined) item.price = price;
+    if (currency !== undefined) item.currency = currency;
+    if (quantity !== undefined) item.quantity = quantity;
+    if (priority !== undefined) item.priority = priority;
     if (url !== undefined) item.url = url;
-    if (isPurchased !== undefined) item.isPurchased = isPurchased;
+    if (isPurchased !== undefined && fulfilment) {
+      fulfilment.purchased = !!isPurchased;
+      fulfilment.purchasedAt = isPurchased ? new Date() : null;
+    }
 
-    await wishlist.save();
+    const invalid = item.validateSync();
+
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        message: Object.values(invalid.errors).map((e: any) => e.message).join(', '),
+      });
+      return;
+    }
+
+    // Keep the price history and tell anyone watching for a drop
+    const tracked = priceUpdate(wishlist, item, 'manual', userId, actorFrom(req));
+
+    // Write only this item's changed paths, so edits to other items aren't overwritten
+    const set: Record<string, any> = {};
+    const changes = diffFields(before, snapshot(item, ITEM_FIELDS), ITEM_FIELDS);
+
+    changes.forEach(({ field }) => {
+      set[`items.$[i].${field}`] = item.get(field);
+    });
+
+    // A new price can complete the group gift or reopen it
+    if (changes.some(({ field }) => field === 'price')) {
+      const fundedAt = recheckFundedAt(item);
+
+      if (fundedAt !== item.groupGift.fundedAt) set['items.$[i].groupGift.fundedAt'] = fundedAt;
+    }
+
+    if (tracked) Object.assign(set, tracked.set);
+
+    const marksPurchase = fulfilment && wasPurchased !== fulfilment.purchased;
+
+    if (marksPurchase) {
+      set['items.$[i].fulfilments.$[f].purchased'] = fulfilment!.purchased;
+      set['items.$[i].fulfilments.$[f].purchasedAt'] = fulfilment!.purchasedAt;
+    }
+
+    // Nothing actually changed
+    if (Object.keys(set).length === 0) {
+      res.set('ETag', itemETag(item));
+      res.json({
+        success: true,
+        message: 'Item updated successfully!',
+        item: itemForViewer(wishlist, item, userId),
+      });
+      return;
+    }
+
+    // Purchases don't count as a new version - the owner would notice
+    const updated = await Wishlist.findOneAndUpdate(
+      {
+        _id: wishlist._id,
+        items: {
+          $elemMatch: { _id: item._id, ...(hasIfMatch(req) && { version: item.version }) },
+        },
+      },
+      {
+        $set: set,
+        ...(tracked && { $push: tracked.push }),
+        ...(changes.length > 0 && { $inc: { 'items.$[i].version': 1 } }),
+      },
+      {
+        new: true,
+        timestamps: changes.length > 0,
+        arrayFilters: [
+          { 'i._id': item._id },
+          ...(marksPurchase ? [{ 'f.user': fulfilment!.user }] : []),
+          ...(tracked ? tracked.arrayFilters : []),
+        ],
+      }
+    );
+
+    if (!updated) {
+      if (hasIfMatch(req)) {
+        preconditionFailed(res, 'item');
+        return;
+      }
+
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    const saved = updated.items.find((i) => i._id?.equals(item._id))!;
+
+    if (marksPurchase) {
+      changes.push({ field: 'isPurchased', before: wasPurchased, after: fulfilment!.purchased });
+    }
+
+    // A purchase-only change is none of the owner's business
+    emitWishlistEvent({
+      type: 'item.updated',
+      wishlist: updated,
+      actor: actorFrom(req),
+      item: { _id: saved._id!.toString(), name: saved.name },
+      changes,
+      surprise: !editsDetails,
+    });
+    tracked?.alerts.forEach((alert) => emitWishlistEvent({ ...alert, wishlist: updated }));
 
+    res.set('ETag', itemETag(saved));
     res.json({
       success: true,
       message: 'Item updated successfully!',
-      item,
+      item: itemForViewer(updated, saved, userId),
     });
   } catch (error: any) {
     console.error('Error updating item:', error);
@@ -393,47 +674,79 @@ export const updateItem = async (
 };
 
 /**
- * Delete item from wishlist
+ * Delete item from wishlist (moves it to the wishlist's trash)
  * DELETE /api/wishlists/:id/items/:itemId
  */
 export const deleteItem = async (
-  req: AuthRequest,
+  req: WishlistRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const wishlist = await Wishlist.findById(req.params.id);
+    const wishlist = req.wishlist!;
+    const userId = req.user?._id;
+
+    const item = wishlist.items.find(
+      (i) => i._id?.toString() === req.params.itemId
+    );
 
-    if (!wishlist) {
+    if (!item) {
       res.status(404).json({
         success: false,
-        message: 'Wishlist not found',
+        message: 'Item not found',
       });
       return;
     }
 
-    // Check access
-    const userId = req.user?._id;
-    const isOwner = wishlist.owner.toString() === userId;
-    const isCollaborator = wishlist.collaborators
-      .map((c) => c.toString())
-      .includes(userId || '');
-
-    if (!isOwner && !isCollaborator) {
+    if (!canModifyItem(req.wishlistRole, item, userId, 'delete')) {
       res.status(403).json({
         success: false,
-        message: 'You do not have access to this wishlist',
+        message: 'You do not have permission to delete this item',
       });
       return;
     }
 
-    // Remove item
-    const item = wishlist.items.find(
-  (i) => i._id?.toString() === req.params.itemId);
-    await wishlist.save();
+    // Move it to the trash in one atomic update; with If-Match, only the version the client saw
+    const trashed = trashedCopy(item, userId!);
+    const updated = await Wishlist.findOneAndUpdate(
+      {
+        _id: wishlist._id,
+        items: {
+          $elemMatch: { _id: item._id, ...(hasIfMatch(req) && { version: item.version }) },
+        },
+      },
+      {
+        $pull: { items: { _id: item._id } },
+        $push: { trashedItems: trashed },
+        $inc: { version: 1 },
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      if (hasIfMatch(req)) {
+        preconditionFailed(res, 'item');
+        return;
+      }
+
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    emitWishlistEvent({
+      type: 'item.deleted',
+      wishlist: updated,
+      actor: actorFrom(req),
+      item: { _id: item._id!.toString(), name: item.name },
+      changes: diffFields(snapshot(item, ITEM_FIELDS), {}, ITEM_FIELDS),
+    });
 
     res.json({
       success: true,
-      message: 'Item deleted successfully!',
+      message: 'Item moved to the trash',
+      purgeAt: purgeDate(trashed.deletedAt!),
     });
   } catch (error: any) {
     console.error('Error deleting item:', error);
@@ -445,37 +758,273 @@ export const deleteItem = async (
 };
 
 // ==========================================
-// COLLABORATION
+// RESERVATIONS
 // ==========================================
 
 /**
- * Invite friend to collaborative wishlist
- * POST /api/wishlists/:id/invite
+ * Claim (reserve) some units of an item as a giver.
+ * Claiming again adds to your existing claim.
+ * POST /api/wishlists/:id/items/:itemId/claim
+ * Body: { quantity?: number } (default 1)
  */
-export const inviteCollaborator = async (
-  req: AuthRequest,
+export const claimItem = async (
+  req: WishlistRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const wishlist = await Wishlist.findById(req.params.id);
+    const wishlist = req.wishlist!;
+
+    const userId = req.user?._id;
+    const { quantity: units = 1 } = req.body as ClaimBody;
 
-    if (!wishlist) {
+    const item = wishlist.items.find(
+      (i) => i._id?.toString() === req.params.itemId
+    );
+
+    if (!item) {
       res.status(404).json({
         success: false,
-        message: 'Wishlist not found',
+        message: 'Item not found',
       });
       return;
     }
 
-    // Only owner can invite
-    if (wishlist.owner.toString() !== req.user?._id) {
-      res.status(403).json({
+    const remaining = remainingQuantity(item);
+
+    if (remaining !== null && units > remaining) {
+      res.status(409).json({
         success: false,
-        message: 'Only the owner can invite collaborators',
+        message:
+          remaining === 0
+            ? 'This item has already been fully claimed'
+            : `Only ${remaining} left to claim`,
+        remainingQuantity: remaining,
       });
       return;
     }
 
+    const giverId = new mongoose.Types.ObjectId(userId);
+    const alreadyClaimed = item.fulfilments.some((f) => f.user.equals(giverId));
+
+    // Atomic claim: only succeeds if the units are still free when we write
+    const itemMatch: Record<string, any> = {
+      _id: item._id,
+      quantity: item.quantity,
+      'fulfilments.user': alreadyClaimed ? giverId : { $ne: giverId },
+    };
+
+    if (item.quantity !== null) {
+      itemMatch.fulfilledQuantity = { $lte: item.quantity - units };
+    }
+
+    const update = alreadyClaimed
+      ? {
+          $inc: {
+            'items.$[i].fulfilledQuantity': units,
+            'items.$[i].fulfilments.$[f].quantity': units,
+          },
+        }
+      : {
+          $inc: { 'items.$[i].fulfilledQuantity': units },
+          $push: {
+            'items.$[i].fulfilments': {
+              user: giverId,
+              quantity: units,
+              purchased: false,
+              claimedAt: new Date(),
+              purchasedAt: null,
+            },
+          },
+        };
+
+    const updated = await Wishlist.findOneAndUpdate(
+      { _id: wishlist._id, items: { $elemMatch: itemMatch } },
+      update,
+      {
+        new: true,
+        timestamps: false, // a changed updatedAt would give the claim away to the owner
+        arrayFilters: alreadyClaimed
+          ? [{ 'i._id': item._id }, { 'f.user': giverId }]
+          : [{ 'i._id': item._id }],
+      }
+    );
+
+    if (!updated) {
+      res.status(409).json({
+        success: false,
+        message: 'Someone else just claimed this item. Please try again.',
+      });
+      return;
+    }
+
+    emitWishlistEvent({
+      type: 'item.claimed',
+      wishlist: updated,
+      actor: actorFrom(req),
+      item: { _id: item._id!.toString(), name: item.name },
+      changes: [
+        {
+          field: 'fulfilledQuantity',
+          before: item.fulfilledQuantity,
+          after: item.fulfilledQuantity + units,
+        },
+      ],
+      surprise: true,
+    });
+
+    res.json({
+      success: true,
+      message: 'Item claimed successfully!',
+      item: itemForViewer(
+        updated,
+        updated.items.find((i) => i._id?.toString() === req.params.itemId),
+        userId
+      ),
+    });
+  } catch (error: any) {
+    console.error('Error claiming item:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error claiming item',
+    });
+  }
+};
+
+/**
+ * Release some or all of my claimed units
+ * DELETE /api/wishlists/:id/items/:itemId/claim?quantity=1 (default all)
+ */
+export const releaseItem = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+
+    const item = wishlist.items.find(
+      (i) => i._id?.toString() === req.params.itemId
+    );
+
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found',
+      });
+      return;
+    }
+
+    // Only the giver who claimed units can release them
+    const userId = req.user?._id;
+    const giverId = new mongoose.Types.ObjectId(userId);
+    const fulfilment = item.fulfilments.find((f) => f.user.equals(giverId));
+
+    if (!fulfilment) {
+      res.status(409).json({
+        success: false,
+        message: 'You do not hold a claim on this item',
+      });
+      return;
+    }
+
+    const { quantity: units = fulfilment.quantity } = req.query as ReleaseQuery;
+
+    if (units > fulfilment.quantity) {
+      res.status(400).json({
+        success: false,
+        message: `Quantity must be a whole number between 1 and ${fulfilment.quantity}`,
+      });
+      return;
+    }
+
+    // Releasing everything drops the record; otherwise shrink it
+    const releasesAll = units === fulfilment.quantity;
+
+    const updated = await Wishlist.findOneAndUpdate(
+      {
+        _id: wishlist._id,
+        items: {
+          $elemMatch: {
+            _id: item._id,
+            fulfilments: { $elemMatch: { user: giverId, quantity: fulfilment.quantity } },
+          },
+        },
+      },
+      releasesAll
+        ? {
+            $inc: { 'items.$[i].fulfilledQuantity': -units },
+            $pull: { 'items.$[i].fulfilments': { user: giverId } },
+          }
+        : {
+            $inc: {
+              'items.$[i].fulfilledQuantity': -units,
+              'items.$[i].fulfilments.$[f].quantity': -units,
+            },
+          },
+      {
+        new: true,
+        timestamps: false, // as with claims, the owner must not see the list change
+        arrayFilters: releasesAll
+          ? [{ 'i._id': item._id }]
+          : [{ 'i._id': item._id }, { 'f.user': giverId }],
+      }
+    );
+
+    if (!updated) {
+      res.status(409).json({
+        success: false,
+        message: 'Your claim changed in the meantime. Please try again.',
+      });
+      return;
+    }
+
+    emitWishlistEvent({
+      type: 'item.released',
+      wishlist: updated,
+      actor: actorFrom(req),
+      item: { _id: item._id!.toString(), name: item.name },
+      changes: [
+        {
+          field: 'fulfilledQuantity',
+          before: item.fulfilledQuantity,
+          after: item.fulfilledQuantity - units,
+        },
+      ],
+      surprise: true,
+    });
+
+    res.json({
+      success: true,
+      message: 'Claim released successfully!',
+      item: itemForViewer(
+        updated,
+        updated.items.find((i) => i._id?.toString() === req.params.itemId),
+        userId
+      ),
+    });
+  } catch (error: any) {
+    console.error('Error releasing item:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error releasing item',
+    });
+  }
+};
+
+// ==========================================
+// COLLABORATION
+// ==========================================
+
+/**
+ * Invite friend to collaborative wishlist
+ * POST /api/wishlists/:id/invite
+ */
+export const inviteCollaborator = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+
     // Must be collaborative type
     if (wishlist.type !== 'collaborative') {
       res.status(400).json({
@@ -485,12 +1034,13 @@ export const inviteCollaborator = async (
       return;
     }
 
-    const { email } = req.body;
+    const { email, role = 'editor' } = req.body as InviteBody;
 
-    if (!email) {
-      res.status(400).json({
+    // Granting manager is the same as managing collaborators
+    if (role === 'manager' && !roleCan(req.wishlistRole, 'manageCollaborators')) {
+      res.status(403).json({
         success: false,
-        message: 'Email is required',
+        message: 'Only the owner can invite managers',
       });
       return;
     }
@@ -499,56 +1049,83 @@ export const inviteCollaborator = async (
     const existingUser = await User.findOne({ email });
 
     if (existingUser) {
-      // User exists - add directly as collaborator
-      const isAlreadyCollaborator = wishlist.collaborators
-        .map((c) => c.toString())
-        .includes(existingUser._id.toString());
-
-      if (isAlreadyCollaborator) {
+      // Don't invite the owner
+      if (existingUser._id.toString() === wishlist.owner.toString()) {
         res.status(400).json({
           success: false,
-          message: 'User is already a collaborator',
+          message: 'That user is the owner',
         });
         return;
       }
 
-      // Don't add owner as collaborator
-      if (existingUser._id.toString() === req.user?._id) {
+      const isAlreadyCollaborator = wishlist.collaborators.some(
+        (c) => c.user.toString() === existingUser._id.toString()
+      );
+
+      if (isAlreadyCollaborator) {
         res.status(400).json({
           success: false,
-          message: 'You are already the owner',
+          message: 'User is already a collaborator',
         });
         return;
       }
+    }
 
-      wishlist.collaborators.push(existingUser._id);
-
-      await wishlist.save();
+    const alreadyInvited = await Invitation.exists({
+      wishlist: wishlist._id,
+      email,
+      status: 'pending',
+      expiresAt: { $gt: new Date() },
+    });
 
-      res.json({
-        success: true,
-        message: `${existingUser.username} added as collaborator!`,
-        wishlist,
+    if (alreadyInvited) {
+      res.status(400).json({
+        success: false,
+        message: 'Invite already sent to this email',
       });
-    } else {
-      // User doesn't exist yet - add to pending invites
-      if (wishlist.pendingInvites.includes(email)) {
-        res.status(400).json({
-          success: false,
-          message: 'Invite already sent to this email',
-        });
-        return;
-      }
+      return;
+    }
 
-      wishlist.pendingInvites.push(email);
-      await wishlist.save();
+    // Nobody joins without accepting (or registering with this email)
+    const token = randomToken();
+    const invitation = await Invitation.create({
+      wishlist: wishlist._id,
+      email,
+      invitedBy: req.user?._id,
+      role,
+      token: hashToken(token),
+      expiresAt: inviteExpiryDate(),
+    });
 
-      res.json({
-        success: true,
-        message: `Invite sent to ${email}! They'll be added when they register.`,
+    // The invite stands even if the mail doesn't go out - it's also in their list
+    try {
+      await sendInvitationEmail(invitation, token, actorFrom(req).username, wishlist.name);
+    } catch (mailError) {
+      console.error('Error sending invitation email:', mailError);
+    }
+
+    if (existingUser) {
+      emitWishlistEvent({
+        type: 'member.invited',
         wishlist,
+        actor: actorFrom(req),
+        targetUserId: existingUser._id.toString(),
       });
     }
+
+    res.status(201).json({
+      success: true,
+      message: existingUser
+        ? `Invite sent to ${existingUser.username}!`
+        : `Invite sent to ${email}! They'll be added when they register.`,
+      invitation: {
+        _id: invitation._id,
+        email: invitation.email,
+        role: invitation.role,
+        status: invitation.status,
+        expiresAt: invitation.expiresAt,
+      },
+    });
   } catch (error: any) {
     console.error('Error inviting collaborator:', error);
     res.status(500).json({
@@ -563,46 +1140,97 @@ export const inviteCollaborator = async (
  * DELETE /api/wishlists/:id/collaborators/:userId
  */
 export const removeCollaborator = async (
-  req: AuthRequest,
+  req: WishlistRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const wishlist = await Wishlist.findById(req.params.id);
+    const wishlist = req.wishlist!;
 
-    if (!wishlist) {
-      res.status(404).json({
-        success: false,
-        message: 'Wishlist not found',
+    // Remove collaborator
+    const before = wishlist.collaborators.length;
+    wishlist.collaborators = wishlist.collaborators.filter(
+      (c) => c.user.toString() !== req.params.userId
+    );
+
+    await wishlist.save();
+
+    if (wishlist.collaborators.length < before) {
+      emitWishlistEvent({
+        type: 'member.removed',
+        wishlist,
+        actor: actorFrom(req),
+        targetUserId: String(req.params.userId),
       });
+    }
+
+    res.json({
+      success: true,
+      message: 'Collaborator removed successfully!',
+      wishlist: wishlistForViewer(wishlist, req.user?._id),
+    });
+  } catch (error: any) {
+    if (isStaleSave(error)) {
+      preconditionFailed(res, 'wishlist');
       return;
     }
 
-    // Only owner can remove collaborators
-    if (wishlist.owner.toString() !== req.user?._id) {
-      res.status(403).json({
+    console.error('Error removing collaborator:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Error removing collaborator',
+    });
+  }
+};
+
+/**
+ * Change a collaborator's role
+ * PUT /api/wishlists/:id/collaborators/:userId
+ */
+export const updateCollaboratorRole = async (
+  req: WishlistRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const wishlist = req.wishlist!;
+    const { role } = req.body as CollaboratorRoleBody;
+
+    const collaborator = wishlist.collaborators.find(
+      (c) => c.user.toString() === req.params.userId
+    );
+
+    if (!collaborator) {
+      res.status(404).json({
         success: false,
-        message: 'Only the owner can remove collaborators',
+        message: 'Collaborator not found',
       });
       return;
     }
 
-    // Remove collaborator
-    wishlist.collaborators = wishlist.collaborators.filter(
-      (c) => c.toString() !== req.params.userId
-    );
-
+    collaborator.role = role;
     await wishlist.save();
 
+    emitWishlistEvent({
+      type: 'member.roleChanged',
+      wishlist,
+      actor: actorFrom(req),
+      targetUserId: collaborator.user.toString(),
+    });
+
     res.json({
       success: true,
-      message: 'Collaborator removed successfully!',
-      wishlist,
+      message: `Collaborator is now a ${role}`,
+      wishlist: wishlistForViewer(wishlist, req.user?._id),
     });
   } catch (error: any) {
-    console.error('Error removing collaborator:', error);
+    if (isStaleSave(error)) {
+      preconditionFailed(res, 'wishlist');
+      return;
+    }
+
+    console.error('Error updating collaborator role:', error);
     res.status(500).json({
       success: false,
-      message: error.message || 'Error removing collaborator',
+      message: error.message || 'Error updating collaborator role',
     });
   }
 };
@@ -0,0 +1,148 @@
+import Wishlist from '../models/Wishlist';
+import { emitWishlistEvent, SYSTEM_ACTOR } from '../utils/events';
+import { nextOccurrence, daysBetween } from '../utils/occasions';
+
+// Days after a one-off occasion before its list is archived (0 = as soon as the day is over)
+const DEFAULT_ARCHIVE_AFTER_DAYS = 1;
+
+/**
+ * Read OCCASION_ARCHIVE_AFTER_DAYS (a whole number, 0 or more)
+ */
+const loadArchiveAfterDays = (): number => {
+  const raw = process.env.OCCASION_ARCHIVE_AFTER_DAYS ?? String(DEFAULT_ARCHIVE_AFTER_DAYS);
+  const days = Number(raw);
+
+  if (raw.trim() === '' || !Number.isInteger(days) || days < 0) {
+    console.warn(
+      `OCCASION_ARCHIVE_AFTER_DAYS must be a whole number of days (0 or more), got "${raw}" - using ${DEFAULT_ARCHIVE_AFTER_DAYS}`
+    );
+    return DEFAULT_ARCHIVE_AFTER_DAYS;
+  }
+
+  return days;
+};
+
+const ARCHIVE_AFTER_DAYS = loadArchiveAfterDays();
+
+/**
+ * Send due occasion reminders and archive one-off lists whose day has passed
+ */
+export const runOccasionJob = async (
+  now: Date = new Date()
+): Promise<{ reminders: number; archived: number }> => {
+  let reminders = 0;
+  let archived = 0;
+
+  const cursor = Wishlist.find({ occasion: { $ne: null }, archivedAt: null }).cursor();
+
+  for await (const wishlist of cursor) {
+    const occasion = wishlist.occasion!;
+    const next = nextOccurrence(occasion, now);
+
+    // One-off occasion is over
+    if (!next) {
+      if (daysBetween(occasion.date, now) < ARCHIVE_AFTER_DAYS) continue;
+
+      const updated = await Wishlist.findOneAndUpdate(
+        { _id: wishlist._id, archivedAt: null },
+        { $set: { archivedAt: now } },
+        { new: true }
+      );
+
+      if (updated) {
+        archived++;
+        emitWishlistEvent({
+          type: 'wishlist.archived',
+          wishlist: updated,
+          actor: SYSTEM_ACTOR,
+          changes: [{ field: 'archivedAt', before: null, after: now }],
+        });
+      }
+      continue;
+    }
+
+    // Only the closest due reminder goes out (no backlog after downtime)
+    const daysUntil = daysBetween(now, next);
+    const due = occasion.remindDaysBefore.filter((days) => days >= daysUntil);
+
+    if (due.length === 0) continue;
+
+    const daysBefore = Math.min(...due);
+    const last = occasion.lastReminder;
+
+    if (
+      last &&
+      last.occurrence.getTime() === next.getTime() &&
+      last.daysBefore <= daysBefore
+    ) {
+      continue;
+    }
+
+    // Claim the reminder atomically so two servers never both send it
+    const updated = await Wishlist.findOneAndUpdate(
+      {
+        _id: wishlist._id,
+        ...(last
+          ? {
+              'occasion.lastReminder.occurrence': last.occurrence,
+              'occasion.lastReminder.daysBefore': last.daysBefore,
+            }
+          : { 'occasion.lastReminder': null }),
+      },
+      { $set: { 'occasion.lastReminder': { occurrence: next, daysBefore } } },
+      { new: true }
+    );
+
+    if (!updated) continue;
+
+    reminders++;
+
+    // Gift reminders are for givers, not the person celebrating
+    emitWishlistEvent({
+      type: 'wishlist.occasionReminder',
+      wishlist: updated,
+      actor: SYSTEM_ACTOR,
+      changes: [{ field: 'daysUntil', before: null, after: daysUntil }],
+      surprise: true,
+    });
+  }
+
+  return { reminders, archived };
+};
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Run the occasion job every N minutes (0 or less = disabled)
+ */
+export const startOccasionJob = (intervalMinutes: number): void => {
+  if (intervalMinutes <= 0 || timer) return;
+
+  let running = false;
+
+  timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await runOccasionJob();
+      if (result.reminders || result.archived) {
+        console.log(
+          `🎂 Occasions: ${result.reminders} reminders sent, ${result.archived} lists archived`
+        );
+      }
+    } catch (error) {
+      console.error('Occasion job failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+};
+
+/**
+ * Stop the occasion job
+ */
+export const stopOccasionJob = (): void => {
+  if (timer) clearInterval(timer);
+  timer = null;
+};
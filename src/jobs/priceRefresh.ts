@@ -0,0 +1,105 @@
+import Wishlist from '../models/Wishlist';
+import { unfurlUrl } from '../utils/unfurl';
+import { priceUpdate } from '../utils/priceTracking';
+import { recheckFundedAt } from '../utils/groupGift';
+import { emitWishlistEvent } from '../utils/events';
+
+/**
+ * Re-read the price of every item with a URL, record changes and send alerts
+ */
+export const refreshPrices = async (): Promise<{ checked: number; changed: number; alerts: number }> => {
+  let checked = 0;
+  let changed = 0;
+  let alerts = 0;
+
+  const cursor = Wishlist.find({ 'items.url': { $nin: [null, ''] } }).cursor();
+
+  for await (const wishlist of cursor) {
+    for (const item of wishlist.items) {
+      if (!item.url) continue;
+      checked++;
+
+      try {
+        const metadata = await unfurlUrl(item.url, { fresh: true });
+        if (metadata.price === null) continue;
+
+        // A price in another currency (say, a regional store page) isn't this item's price
+        if (metadata.currency && metadata.currency.toUpperCase() !== item.currency) continue;
+
+        if (metadata.price === item.price) continue;
+
+        item.price = metadata.price;
+        const tracked = priceUpdate(wishlist, item, 'refresh');
+
+        // Only this item's paths, and only if nobody edited it since it was read
+        const updated = await Wishlist.findOneAndUpdate(
+          { _id: wishlist._id, items: { $elemMatch: { _id: item._id, version: item.version } } },
+          {
+            $set: {
+              'items.$[i].price': metadata.price,
+              'items.$[i].groupGift.fundedAt': recheckFundedAt(item),
+              ...(item.metadata && {
+                'items.$[i].metadata.price': metadata.price,
+                'items.$[i].metadata.currency': metadata.currency,
+                'items.$[i].metadata.fetchedAt': metadata.fetchedAt,
+              }),
+              ...tracked?.set,
+            },
+            ...(tracked && { $push: tracked.push }),
+            $inc: { 'items.$[i].version': 1 },
+          },
+          { new: true, arrayFilters: [{ 'i._id': item._id }, ...(tracked ? tracked.arrayFilters : [])] }
+        );
+
+        // Edited in the meantime - the next run looks again
+        if (!updated) continue;
+
+        changed++;
+
+        // Alerts go out once the new price is stored
+        tracked?.alerts.forEach((alert) => emitWishlistEvent({ ...alert, wishlist: updated }));
+        alerts += tracked?.alerts.length ?? 0;
+      } catch (error: any) {
+        console.warn(`Price refresh failed for ${item.url}:`, error.message);
+      }
+    }
+  }
+
+  return { checked, changed, alerts };
+};
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Run the refresh every N minutes (0 or less = disabled)
+ */
+export const startPriceRefreshJob = (intervalMinutes: number): void => {
+  if (intervalMinutes <= 0 || timer) return;
+
+  let running = false;
+
+  timer = setInterval(async () => {
+    // Never overlap runs on a slow network
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await refreshPrices();
+      console.log(
+        `💲 Price refresh: ${result.checked} checked, ${result.changed} changed, ${result.alerts} alerts`
+      );
+    } catch (error) {
+      console.error('Price refresh job failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+};
+
+/**
+ * Stop the refresh job
+ */
+export const stopPriceRefreshJob = (): void => {
+  if (timer) clearInterval(timer);
+  timer = null;
+};
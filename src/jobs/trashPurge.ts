@@ -0,0 +1,78 @@
+import Wishlist from '../models/Wishlist';
+import Invitation from '../models/Invitation';
+import { addDays } from '../utils/occasions';
+import { trashRetentionDays } from '../utils/trash';
+
+/**
+ * Permanently delete wishlists and items that have been in the trash too long
+ */
+export const runTrashPurge = async (
+  now: Date = new Date()
+): Promise<{ wishlists: number; items: number }> => {
+  const cutoff = addDays(now, -trashRetentionDays());
+
+  // Whole lists (and the invitations still pointing at them)
+  const expired = await Wishlist.find({ deletedAt: { $lte: cutoff } }).select('_id');
+  const ids = expired.map((wishlist) => wishlist._id);
+
+  if (ids.length) {
+    await Invitation.deleteMany({ wishlist: { $in: ids } });
+    await Wishlist.deleteMany({ _id: { $in: ids }, deletedAt: { $lte: cutoff } });
+  }
+
+  // Items trashed on lists that are still around
+  const lists = await Wishlist.find({ 'trashedItems.deletedAt': { $lte: cutoff } }).select(
+    'trashedItems.deletedAt'
+  );
+  const items = lists.reduce(
+    (count, wishlist) =>
+      count + wishlist.trashedItems.filter((item) => item.deletedAt! <= cutoff).length,
+    0
+  );
+
+  if (items) {
+    await Wishlist.updateMany(
+      { 'trashedItems.deletedAt': { $lte: cutoff } },
+      { $pull: { trashedItems: { deletedAt: { $lte: cutoff } } } }
+    );
+  }
+
+  return { wishlists: ids.length, items };
+};
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Run the trash purge every N minutes (0 or less = disabled)
+ */
+export const startTrashPurgeJob = (intervalMinutes: number): void => {
+  if (intervalMinutes <= 0 || timer) return;
+
+  let running = false;
+
+  timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await runTrashPurge();
+      if (result.wishlists || result.items) {
+        console.log(
+          `🗑️  Trash: purged ${result.wishlists} wishlists and ${result.items} items`
+        );
+      }
+    } catch (error) {
+      console.error('Trash purge failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+};
+
+/**
+ * Stop the trash purge job
+ */
+export const stopTrashPurgeJob = (): void => {
+  if (timer) clearInterval(timer);
+  timer = null;
+};
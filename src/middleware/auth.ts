@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import User from '../models/User';
+import Session from '../models/Session';
 import { verifyToken } from '../utils/jwt';
+import { VerifiedAction, isActionAllowed } from '../config/emailVerification';
 
 /**
  * Extended Request interface with user property
@@ -10,7 +12,10 @@ export interface AuthRequest extends Request {
     _id: string;
     username: string;
     email: string;
+    emailVerified: boolean;
+    preferredCurrency: string;
   };
+  sessionId?: string;
 }
 
 /**
@@ -47,7 +52,25 @@ export const protect = async (
       return;
     }
 
-    // 3. Get user from database
+    // 3. Make sure the session is still alive (logout / revoke kill it)
+    const session = decoded.sessionId
+      ? await Session.findById(decoded.sessionId)
+      : null;
+
+    if (
+      !session ||
+      session.revokedAt ||
+      session.expiresAt.getTime() <= Date.now() ||
+      session.user.toString() !== decoded.userId
+    ) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has ended. Please login again.',
+      });
+      return;
+    }
+
+    // 4. Get user from database
     const user = await User.findById(decoded.userId).select('-password');
 
     if (!user) {
@@ -58,12 +81,24 @@ export const protect = async (
       return;
     }
 
-    // 4. Attach user to request
+    // 5. Tokens from before the email needed (re)verifying stop working too
+    if (!isActionAllowed(user.emailVerified, 'login')) {
+      res.status(403).json({
+        success: false,
+        message: 'Please verify your email address before logging in',
+      });
+      return;
+    }
+
+    // 6. Attach user and session to request
     req.user = {
       _id: user._id.toString(),
       username: user.username,
       email: user.email,
+      emailVerified: user.emailVerified,
+      preferredCurrency: user.preferredCurrency,
     };
+    req.sessionId = session._id.toString();
 
     next(); // Continue to route handler
   } catch (error) {
@@ -72,4 +107,40 @@ export const protect = async (
       message: 'Not authorized.',
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Middleware to accept the access token as ?access_token= for event streams
+ * (EventSource can't send headers). Must run before protect.
+ */
+export const tokenFromQuery = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const token = req.query.access_token;
+
+  if (!req.headers.authorization && typeof token === 'string' && token) {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+
+  next();
+};
+
+/**
+ * Middleware to require a verified email for an action (per the configured policy)
+ * Must run after protect.
+ */
+export const requireVerifiedEmail = (action: VerifiedAction) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!isActionAllowed(!!req.user?.emailVerified, action)) {
+      res.status(403).json({
+        success: false,
+        message: 'Please verify your email address first.',
+      });
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express';
+import { FieldError, RequestPart, Schema, parseRequestPart } from '../utils/validation';
+
+/**
+ * Schemas for the parts of a request a route accepts
+ */
+export type RequestSchemas = Partial<Record<RequestPart, Schema<any>>>;
+
+const PARTS: RequestPart[] = ['params', 'query', 'body'];
+
+/**
+ * Middleware to check params, query and body against schemas.
+ * Answers 400 with every field error at once; otherwise the handler
+ * gets the normalised values (unknown fields dropped).
+ */
+export const validate = (schemas: RequestSchemas) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+    const parsed: Partial<Record<RequestPart, any>> = {};
+
+    PARTS.forEach((part) => {
+      const schema = schemas[part];
+
+      if (schema) parsed[part] = parseRequestPart(schema, req[part], part, errors);
+    });
+
+    if (errors.length) {
+      res.status(400).json({
+        success: false,
+        message: errors.map((error) => error.message).join(', '),
+        errors,
+      });
+      return;
+    }
+
+    PARTS.forEach((part) => {
+      if (schemas[part]) Object.assign(req, { [part]: parsed[part] });
+    });
+
+    next();
+  };
+};
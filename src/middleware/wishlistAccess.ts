@@ -0,0 +1,111 @@
+import { Response, NextFunction } from 'express';
+import Wishlist, { IWishlist } from '../models/Wishlist';
+import { AuthRequest } from './auth';
+import { Permission, WishlistRole, getWishlistRole, roleCan } from '../utils/permissions';
+import { canViewAsOutsider } from '../utils/friends';
+import { wishlistETag, itemETag, ifMatchAllows, hasIfMatch, preconditionFailed } from '../utils/etag';
+
+/**
+ * Request with the wishlist and the caller's role attached
+ */
+export interface WishlistRequest extends AuthRequest {
+  wishlist?: IWishlist;
+  wishlistRole?: WishlistRole | null;
+}
+
+/**
+ * Message returned when a permission is missing
+ */
+const DENIED_MESSAGES: Record<Permission, string> = {
+  view: 'You do not have access to this wishlist',
+  addItems: 'You do not have permission to add items',
+  editOwnItems: 'You do not have permission to edit items',
+  editOthersItems: 'You do not have permission to edit items added by others',
+  deleteOwnItems: 'You do not have permission to delete items',
+  deleteOthersItems: 'You do not have permission to delete items added by others',
+  claimItems: 'You cannot claim items on this wishlist',
+  pledge: 'You cannot chip in on this wishlist',
+  invite: 'You do not have permission to invite collaborators',
+  manageCollaborators: 'Only the owner can manage collaborators',
+  manageSettings: 'You do not have permission to change this wishlist',
+  deleteWishlist: 'Only the owner can delete this wishlist',
+};
+
+interface AuthorizeOptions {
+  allowPublic?: boolean; // let outsiders read public (and friends-only, for friends) wishlists
+}
+
+/**
+ * Middleware to load :id and require a permission on it
+ * Must run after protect.
+ */
+export const authorizeWishlist = (
+  permission: Permission,
+  options: AuthorizeOptions = {}
+) => {
+  return async (
+    req: WishlistRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const wishlist = await Wishlist.findById(req.params.id);
+
+      if (!wishlist) {
+        res.status(404).json({
+          success: false,
+          message: 'Wishlist not found',
+        });
+        return;
+      }
+
+      const role = getWishlistRole(wishlist, req.user?._id);
+      const allowed =
+        roleCan(role, permission) ||
+        (options.allowPublic && (await canViewAsOutsider(wishlist, req.user?._id)));
+
+      if (!allowed) {
+        res.status(403).json({
+          success: false,
+          message: DENIED_MESSAGES[permission],
+        });
+        return;
+      }
+
+      // If-Match on PUT/DELETE: against the item in the URL, else the wishlist
+      if (['PUT', 'DELETE'].includes(req.method) && hasIfMatch(req)) {
+        const itemId = req.params.itemId;
+
+        if (itemId) {
+          const item = [...wishlist.items, ...wishlist.trashedItems].find(
+            (i) => i._id?.toString() === itemId
+          );
+
+          if (item && !ifMatchAllows(req, itemETag(item))) {
+            preconditionFailed(res, 'item');
+            return;
+          }
+        } else {
+          if (!ifMatchAllows(req, wishlistETag(wishlist))) {
+            preconditionFailed(res, 'wishlist');
+            return;
+          }
+
+          // Saving then only succeeds if nobody else saved in the meantime
+          wishlist.$where = { version: wishlist.version };
+        }
+      }
+
+      req.wishlist = wishlist;
+      req.wishlistRole = role;
+
+      next();
+    } catch (error: any) {
+      console.error('Error authorizing wishlist access:', error);
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error loading wishlist',
+      });
+    }
+  };
+};
@@ -0,0 +1,34 @@
+import Wishlist from '../models/Wishlist';
+import { Migration } from './index';
+
+/**
+ * Collaborators used to be a plain list of user ids. Each becomes an editor
+ * (the default role) added when the list was created.
+ */
+export const collaboratorIdsToRoles: Migration = {
+  id: '2026-10-collaborator-ids-to-roles',
+  description: 'give legacy collaborators a role',
+  up: async () => {
+    const result = await Wishlist.collection.updateMany({ collaborators: { $type: 'objectId' } }, [
+      {
+        $set: {
+          collaborators: {
+            $map: {
+              input: '$collaborators',
+              as: 'c',
+              in: {
+                $cond: [
+                  { $eq: [{ $type: '$$c' }, 'objectId'] },
+                  { user: '$$c', role: 'editor', addedAt: '$createdAt' },
+                  '$$c',
+                ],
+              },
+            },
+          },
+        },
+      },
+    ]);
+
+    return result.modifiedCount;
+  },
+};
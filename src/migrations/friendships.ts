@@ -0,0 +1,34 @@
+import Friendship, { friendshipPair } from '../models/Friendship';
+import { Migration } from './index';
+
+/**
+ * Friendships used to be unique per (requester, recipient), so two users asking
+ * each other at once could end up with two documents. Give every friendship its
+ * sorted pair and fold such duplicates into one, keeping an accepted one if any.
+ */
+export const friendshipPairs: Migration = {
+  id: '2026-10-friendship-pairs',
+  description: 'key friendships by their sorted user pair',
+  up: async () => {
+    const friendships = await Friendship.collection
+      .find({ pair: { $exists: false } })
+      .sort({ status: 1, createdAt: 1 }) // 'accepted' before 'pending', oldest first
+      .project<{ _id: any; requester: any; recipient: any }>({ requester: 1, recipient: 1 })
+      .toArray();
+
+    let changed = 0;
+
+    for (const friendship of friendships) {
+      const pair = friendshipPair(friendship.requester.toString(), friendship.recipient.toString());
+
+      if (await Friendship.collection.findOne({ pair })) {
+        await Friendship.collection.deleteOne({ _id: friendship._id });
+      } else {
+        await Friendship.collection.updateOne({ _id: friendship._id }, { $set: { pair } });
+      }
+      changed++;
+    }
+
+    return changed;
+  },
+};
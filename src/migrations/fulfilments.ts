@@ -0,0 +1,76 @@
+import Wishlist from '../models/Wishlist';
+import { Migration } from './index';
+
+/**
+ * Items used to carry one claim (claimedBy/claimedAt) and an isPurchased flag.
+ * Each becomes a fulfilment record, so no claim or purchase is lost.
+ */
+export const claimsToFulfilments: Migration = {
+  id: '2026-10-claims-to-fulfilments',
+  description: 'turn item claims and purchases into fulfilments',
+  up: async () => {
+    const legacy = { $exists: true };
+    const wishlists = await Wishlist.collection
+      .find({
+        $or: [
+          { 'items.claimedBy': legacy },
+          { 'items.isPurchased': legacy },
+          { 'trashedItems.claimedBy': legacy },
+          { 'trashedItems.isPurchased': legacy },
+        ],
+      })
+      .project<{ _id: any; owner: any; items?: any[]; trashedItems?: any[] }>({
+        owner: 1,
+        items: 1,
+        trashedItems: 1,
+      })
+      .toArray();
+
+    let changed = 0;
+
+    for (const wishlist of wishlists) {
+      for (const field of ['items', 'trashedItems'] as const) {
+        for (const item of wishlist[field] || []) {
+          if (!('claimedBy' in item) && !('isPurchased' in item)) continue;
+
+          const set: Record<string, any> = {};
+
+          // Before claims, anyone could tick isPurchased and nobody recorded who.
+          // The owner is the one account that always could, so the unit is put down to them.
+          const giver = item.claimedBy || (item.isPurchased ? wishlist.owner : null);
+
+          if (giver && !item.fulfilments?.length) {
+            const claimedAt = item.claimedAt || item.createdAt || new Date();
+
+            set[`${field}.$.fulfilments`] = [
+              {
+                user: giver,
+                quantity: 1,
+                purchased: !!item.isPurchased,
+                claimedAt,
+                purchasedAt: item.isPurchased ? claimedAt : null,
+              },
+            ];
+            set[`${field}.$.fulfilledQuantity`] = 1;
+            if (item.quantity === undefined) set[`${field}.$.quantity`] = 1;
+          }
+
+          await Wishlist.collection.updateOne(
+            { _id: wishlist._id, [`${field}._id`]: item._id },
+            {
+              ...(Object.keys(set).length > 0 && { $set: set }),
+              $unset: {
+                [`${field}.$.claimedBy`]: '',
+                [`${field}.$.claimedAt`]: '',
+                [`${field}.$.isPurchased`]: '',
+              },
+            }
+          );
+          changed++;
+        }
+      }
+    }
+
+    return changed;
+  },
+};
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+import { pendingInvitesToInvitations, hashInvitationTokens } from './invitations';
+import { collaboratorIdsToRoles } from './collaborators';
+import { backfillEmailVerified } from './users';
+import { claimsToFulfilments } from './fulfilments';
+import { friendshipPairs } from './friendships';
+
+/**
+ * A one-off change to documents written by an older version of the app.
+ * Migrations must be safe to run twice - a crash can leave one half done.
+ */
+export interface Migration {
+  id: string; // recorded once applied, so never rename a shipped one
+  description: string;
+  up: () => Promise<number>; // returns how many documents changed
+}
+
+/**
+ * Every migration, oldest first
+ */
+const MIGRATIONS: Migration[] = [
+  pendingInvitesToInvitations,
+  hashInvitationTokens,
+  collaboratorIdsToRoles,
+  backfillEmailVerified,
+  claimsToFulfilments,
+  friendshipPairs,
+];
+
+/**
+ * Apply the migrations this database hasn't seen yet.
+ * Exits the process if one fails, like a failed database connection does.
+ */
+export const runMigrations = async (): Promise<void> => {
+  const applied = mongoose.connection.collection<{ _id: string; appliedAt: Date }>('migrations');
+
+  for (const migration of MIGRATIONS) {
+    if (await applied.findOne({ _id: migration.id })) continue;
+
+    try {
+      const changed = await migration.up();
+
+      await applied.insertOne({ _id: migration.id, appliedAt: new Date() });
+      console.log(`🔧 Migration ${migration.id}: ${migration.description} (${changed} changed)`);
+    } catch (error) {
+      console.error(`❌ Migration ${migration.id} failed:`, error);
+      process.exit(1);
+    }
+  }
+};
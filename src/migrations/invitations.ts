@@ -0,0 +1,73 @@
+import Wishlist from '../models/Wishlist';
+import Invitation from '../models/Invitation';
+import { inviteExpiryDate } from '../utils/invitations';
+import { randomToken, hashToken } from '../utils/tokens';
+import { Migration } from './index';
+
+/**
+ * Wishlists used to keep invited emails in pendingInvites (no longer in the schema,
+ * so the raw collection is used). Each becomes a pending editor invitation from the owner.
+ */
+export const pendingInvitesToInvitations: Migration = {
+  id: '2026-10-pending-invites-to-invitations',
+  description: 'turn wishlist pendingInvites into invitations',
+  up: async () => {
+    const wishlists = await Wishlist.collection
+      .find({ 'pendingInvites.0': { $exists: true } })
+      .project<{ _id: any; owner: any; pendingInvites: string[] }>({ owner: 1, pendingInvites: 1 })
+      .toArray();
+
+    let created = 0;
+
+    for (const wishlist of wishlists) {
+      const emails = new Set(wishlist.pendingInvites.map((email) => String(email).trim().toLowerCase()));
+
+      for (const email of emails) {
+        if (await Invitation.exists({ wishlist: wishlist._id, email, status: 'pending' })) continue;
+
+        try {
+          await Invitation.create({
+            wishlist: wishlist._id,
+            email,
+            invitedBy: wishlist.owner,
+            role: 'editor', // what every collaborator could do back then
+            token: hashToken(randomToken()),
+            expiresAt: inviteExpiryDate(),
+          });
+          created++;
+        } catch (error: any) {
+          // An address the old code let through but the model rejects
+          console.warn(`Skipping pending invite "${email}" on ${wishlist._id}: ${error.message}`);
+        }
+      }
+
+      await Wishlist.collection.updateOne({ _id: wishlist._id }, { $unset: { pendingInvites: '' } });
+    }
+
+    return created;
+  },
+};
+
+/**
+ * Invitation tokens were stored as issued; store their hashes like every other token
+ */
+export const hashInvitationTokens: Migration = {
+  id: '2026-10-hash-invitation-tokens',
+  description: 'hash stored invitation tokens',
+  up: async () => {
+    // A hash is 64 hex characters, an issued token never is
+    const invitations = await Invitation.collection
+      .find({ token: { $not: /^[0-9a-f]{64}$/ } })
+      .project<{ _id: any; token: string }>({ token: 1 })
+      .toArray();
+
+    for (const invitation of invitations) {
+      await Invitation.collection.updateOne(
+        { _id: invitation._id, token: invitation.token },
+        { $set: { token: hashToken(invitation.token) } }
+      );
+    }
+
+    return invitations.length;
+  },
+};
@@ -0,0 +1,19 @@
+import User from '../models/User';
+import { Migration } from './index';
+
+/**
+ * Accounts from before email verification never had the chance to verify.
+ * Treat them as verified so they keep everything they could already do.
+ */
+export const backfillEmailVerified: Migration = {
+  id: '2026-10-backfill-email-verified',
+  description: 'mark accounts from before email verification as verified',
+  up: async () => {
+    const result = await User.collection.updateMany(
+      { emailVerified: { $exists: false } },
+      { $set: { emailVerified: true } }
+    );
+
+    return result.modifiedCount;
+  },
+};
@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { FieldChange, WishlistEventType, WISHLIST_EVENT_TYPES } from '../utils/events';
+
+/**
+ * Interface for Activity document (append-only audit trail)
+ */
+export interface IActivity extends Document {
+  wishlist: mongoose.Types.ObjectId;
+  actor: mongoose.Types.ObjectId | null; // null = background job
+  action: WishlistEventType;
+  item: mongoose.Types.ObjectId | null;
+  itemName: string; // kept so deleted items still read well
+  targetUser: mongoose.Types.ObjectId | null;
+  changes: FieldChange[];
+  surprise: boolean; // hidden from the owner
+  createdAt: Date;
+}
+
+/**
+ * Activity Schema
+ */
+const activitySchema = new Schema<IActivity>(
+  {
+    wishlist: {
+      type: Schema.Types.ObjectId,
+      ref: 'Wishlist',
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    action: {
+      type: String,
+      enum: WISHLIST_EVENT_TYPES,
+      required: true,
+    },
+    item: {
+      type: Schema.Types.ObjectId,
+      default: null,
+    },
+    itemName: {
+      type: String,
+      default: '',
+    },
+    targetUser: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    changes: [
+      {
+        _id: false,
+        field: String,
+        before: Schema.Types.Mixed,
+        after: Schema.Types.Mixed,
+      },
+    ],
+    surprise: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+activitySchema.index({ wishlist: 1, createdAt: -1 });
+
+/**
+ * The log is append-only: refuse any update
+ */
+activitySchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'],
+  function (next) {
+    next(new Error('Activity log is append-only'));
+  }
+);
+
+/**
+ * Activity Model
+ */
+const Activity = mongoose.model<IActivity>('Activity', activitySchema);
+
+export default Activity;
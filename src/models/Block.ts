@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Interface for Block document
+ */
+export interface IBlock extends Document {
+  blocker: mongoose.Types.ObjectId;
+  blocked: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+/**
+ * Block Schema
+ */
+const blockSchema = new Schema<IBlock>(
+  {
+    blocker: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    blocked: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+blockSchema.index({ blocker: 1, blocked: 1 }, { unique: true });
+blockSchema.index({ blocked: 1 });
+
+/**
+ * Block Model
+ */
+const Block = mongoose.model<IBlock>('Block', blockSchema);
+
+export default Block;
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Interface for Friendship document
+ * One document per pair: pending until the recipient accepts.
+ * Declined and removed friendships are deleted so a new request can follow.
+ */
+export interface IFriendship extends Document {
+  requester: mongoose.Types.ObjectId;
+  recipient: mongoose.Types.ObjectId;
+  pair: string; // both user IDs, sorted - the same whoever asked
+  status: 'pending' | 'accepted';
+  acceptedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Friendship Schema
+ */
+const friendshipSchema = new Schema<IFriendship>(
+  {
+    requester: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    recipient: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    pair: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted'],
+      default: 'pending',
+    },
+    acceptedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * The key two users share however the request went, so A→B and B→A sent
+ * at the same moment can't both be stored
+ */
+export const friendshipPair = (userA: string, userB: string): string => {
+  return [userA, userB].sort().join(':');
+};
+
+// Sparse until the migration has given older documents their pair
+friendshipSchema.index({ pair: 1 }, { unique: true, sparse: true });
+friendshipSchema.index({ requester: 1, recipient: 1 }, { unique: true });
+friendshipSchema.index({ recipient: 1, status: 1 });
+
+friendshipSchema.pre('validate', function () {
+  this.pair = friendshipPair(this.requester.toString(), this.recipient.toString());
+});
+
+/**
+ * Friendship Model
+ */
+const Friendship = mongoose.model<IFriendship>('Friendship', friendshipSchema);
+
+export default Friendship;
@@ -0,0 +1,80 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { CollaboratorRole, COLLABORATOR_ROLES } from './Wishlist';
+
+/**
+ * Interface for Invitation document
+ */
+export interface IInvitation extends Document {
+  wishlist: mongoose.Types.ObjectId;
+  email: string; // who was invited
+  invitedBy: mongoose.Types.ObjectId;
+  role: CollaboratorRole; // role granted on accept
+  token: string; // hash of the token mailed to the invitee
+  status: 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+  expiresAt: Date;
+  respondedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Invitation Schema
+ */
+const invitationSchema = new Schema<IInvitation>(
+  {
+    wishlist: {
+      type: Schema.Types.ObjectId,
+      ref: 'Wishlist',
+      required: true,
+    },
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email'],
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: COLLABORATOR_ROLES,
+      default: 'editor',
+    },
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'declined', 'cancelled', 'expired'],
+      default: 'pending',
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    respondedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+invitationSchema.index({ email: 1, status: 1 });
+invitationSchema.index({ wishlist: 1, status: 1 });
+
+/**
+ * Invitation Model
+ */
+const Invitation = mongoose.model<IInvitation>('Invitation', invitationSchema);
+
+export default Invitation;
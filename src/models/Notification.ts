@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { WishlistEventType, WISHLIST_EVENT_TYPES } from '../utils/events';
+
+/**
+ * Interface for Notification document
+ */
+export interface INotification extends Document {
+  recipient: mongoose.Types.ObjectId;
+  type: WishlistEventType;
+  wishlist: mongoose.Types.ObjectId;
+  item: mongoose.Types.ObjectId | null;
+  actor: mongoose.Types.ObjectId | null; // null = background job
+  message: string;
+  readAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Notification Schema
+ */
+const notificationSchema = new Schema<INotification>(
+  {
+    recipient: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: WISHLIST_EVENT_TYPES,
+      required: true,
+    },
+    wishlist: {
+      type: Schema.Types.ObjectId,
+      ref: 'Wishlist',
+      required: true,
+    },
+    item: {
+      type: Schema.Types.ObjectId,
+      default: null,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+notificationSchema.index({ recipient: 1, createdAt: -1 });
+notificationSchema.index({ recipient: 1, readAt: 1 });
+
+/**
+ * Notification Model
+ */
+const Notification = mongoose.model<INotification>('Notification', notificationSchema);
+
+export default Notification;
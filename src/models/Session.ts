@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Why a session was ended
+ */
+export type SessionRevokeReason = 'logout' | 'revoked' | 'reuse' | 'password';
+
+/**
+ * Interface for Session document
+ * One session per login (device). The session is the refresh token family:
+ * every rotation replaces the hash, old hashes are kept to detect reuse.
+ */
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  previousTokenHashes: string[];
+  userAgent: string;
+  ip: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: SessionRevokeReason | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Session Schema
+ */
+const sessionSchema = new Schema<ISession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    previousTokenHashes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    userAgent: {
+      type: String,
+      default: '',
+    },
+    ip: {
+      type: String,
+      default: '',
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'revoked', 'reuse', 'password'],
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Session Model
+ */
+const Session = mongoose.model<ISession>('Session', sessionSchema);
+
+export default Session;
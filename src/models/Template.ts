@@ -0,0 +1,125 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ItemPriority, ITEM_PRIORITIES, OccasionType, OCCASION_TYPES } from './Wishlist';
+import { CURRENCY_CODES, DEFAULT_CURRENCY } from '../config/currencies';
+
+/**
+ * An item on a template - just what to ask for, no people or history
+ */
+export interface ITemplateItem {
+  name: string;
+  description: string;
+  price: number | null;
+  currency: string; // ISO 4217
+  url: string;
+  imageUrl: string;
+  quantity: number | null; // null = any number
+  priority: ItemPriority;
+  position: number;
+}
+
+/**
+ * Interface for Template document (system templates live in config/templates.ts)
+ */
+export interface ITemplate extends Document {
+  name: string;
+  description: string;
+  owner: mongoose.Types.ObjectId;
+  type: 'private' | 'collaborative';
+  occasionType: OccasionType | null; // suggested occasion for lists made from it
+  items: ITemplateItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Template item Schema (embedded inside Template) - same rules as wishlist items
+ */
+const templateItemSchema = new Schema<ITemplateItem>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Item name is required'],
+      trim: true,
+      maxlength: [100, 'Item name cannot exceed 100 characters'],
+    },
+    description: { type: String, trim: true, default: '' },
+    price: { type: Number, min: [0, 'Price cannot be negative'], default: null },
+    currency: {
+      type: String,
+      uppercase: true,
+      enum: {
+        values: CURRENCY_CODES,
+        message: '{VALUE} is not a valid ISO 4217 currency code',
+      },
+      default: DEFAULT_CURRENCY,
+    },
+    url: { type: String, trim: true, default: '' },
+    imageUrl: { type: String, trim: true, default: '' },
+    quantity: {
+      type: Number,
+      min: [1, 'Quantity must be at least 1'],
+      validate: {
+        validator: (value: number | null) => value === null || Number.isInteger(value),
+        message: 'Quantity must be a whole number',
+      },
+      default: 1,
+    },
+    priority: {
+      type: String,
+      enum: {
+        values: ITEM_PRIORITIES,
+        message: `Priority must be one of: ${ITEM_PRIORITIES.join(', ')}`,
+      },
+      default: 'normal',
+    },
+    position: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+/**
+ * Template Schema
+ */
+const templateSchema = new Schema<ITemplate>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Template name is required'],
+      trim: true,
+      maxlength: [100, 'Template name cannot exceed 100 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: '',
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['private', 'collaborative'],
+      default: 'private',
+    },
+    occasionType: {
+      type: String,
+      enum: OCCASION_TYPES,
+      default: null,
+    },
+    items: [templateItemSchema],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+templateSchema.index({ owner: 1, createdAt: -1 });
+
+/**
+ * Template Model
+ */
+const Template = mongoose.model<ITemplate>('Template', templateSchema);
+
+export default Template;
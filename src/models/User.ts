@@ -1,5 +1,21 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { WishlistEventType, WISHLIST_EVENT_TYPES } from '../utils/events';
+import { CURRENCY_CODES, DEFAULT_CURRENCY } from '../config/currencies';
+
+// Account rules, shared with the request schemas
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+export const PASSWORD_MIN_LENGTH = 6;
+export const EMAIL_PATTERN = /^\S+@\S+\.\S+$/;
+
+/**
+ * Which notifications a user does not want
+ */
+export interface INotificationPreferences {
+  mutedTypes: WishlistEventType[];
+  mutedWishlists: mongoose.Types.ObjectId[];
+}
 
 /**
  * Interface for User document
@@ -9,6 +25,13 @@ export interface IUser extends Document {
   email: string;
   password: string;
   age: number | null;
+  preferredCurrency: string; // prices are shown converted to this
+  emailVerified: boolean;
+  emailVerificationTokenHash: string | null;
+  emailVerificationExpiresAt: Date | null;
+  notificationPreferences: INotificationPreferences;
+  passwordResetTokenHash: string | null;
+  passwordResetExpiresAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -24,8 +47,8 @@ const userSchema = new Schema<IUser>(
       required: [true, 'Username is required'],
       unique: true,
       trim: true,
-      minlength: [3, 'Username must be at least 3 characters'],
-      maxlength: [30, 'Username cannot exceed 30 characters'],
+      minlength: [USERNAME_MIN_LENGTH, `Username must be at least ${USERNAME_MIN_LENGTH} characters`],
+      maxlength: [USERNAME_MAX_LENGTH, `Username cannot exceed ${USERNAME_MAX_LENGTH} characters`],
     },
     email: {
       type: String,
@@ -33,12 +56,12 @@ const userSchema = new Schema<IUser>(
       unique: true,
       lowercase: true,
       trim: true,
-      match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email'],
+      match: [EMAIL_PATTERN, 'Please provide a valid email'],
     },
     password: {
       type: String,
       required: [true, 'Password is required'],
-      minlength: [6, 'Password must be at least 6 characters'],
+      minlength: [PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`],
       select: false, // Don't include password in queries by default
     },
     age: {
@@ -46,6 +69,54 @@ const userSchema = new Schema<IUser>(
       min: [0, 'Age cannot be negative'],
       default: null,
     },
+    preferredCurrency: {
+      type: String,
+      uppercase: true,
+      enum: {
+        values: CURRENCY_CODES,
+        message: '{VALUE} is not a valid ISO 4217 currency code',
+      },
+      default: DEFAULT_CURRENCY,
+    },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    // Email verification (only the hash is stored)
+    emailVerificationTokenHash: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    emailVerificationExpiresAt: {
+      type: Date,
+      default: null,
+      select: false,
+    },
+    notificationPreferences: {
+      mutedTypes: {
+        type: [String],
+        enum: WISHLIST_EVENT_TYPES,
+        default: [],
+      },
+      mutedWishlists: [
+        {
+          type: Schema.Types.ObjectId,
+          ref: 'Wishlist',
+        },
+      ],
+    },
+    // Single-use password reset (only the hash is stored)
+    passwordResetTokenHash: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    passwordResetExpiresAt: {
+      type: Date,
+      default: null,
+      select: false,
+    },
   },
   {
     timestamps: true,
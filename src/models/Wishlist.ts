@@ -1,4 +1,86 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { CURRENCY_CODES, DEFAULT_CURRENCY } from '../config/currencies';
+
+/**
+ * Product details scraped from the item's URL
+ */
+export interface IItemMetadata {
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  price: number | null;
+  currency: string | null;
+  siteName: string | null;
+  fetchedAt: Date;
+}
+
+/**
+ * One recorded price of an item
+ */
+export interface IPricePoint {
+  price: number;
+  currency: string;
+  source: 'manual' | 'refresh';
+  recordedBy: mongoose.Types.ObjectId | null; // null = refresh job
+  recordedAt: Date;
+}
+
+/**
+ * A user's price alert on an item
+ */
+export interface IPriceWatch {
+  user: mongoose.Types.ObjectId;
+  targetPrice: number | null; // alert when the price falls to this or below
+  dropPercent: number | null; // alert when the price drops this much
+  basePrice: number | null; // price the drop is measured from
+  lastAlertAt: Date | null;
+}
+
+/**
+ * How much the owner wants an item, from most to least
+ */
+export type ItemPriority = 'must-have' | 'high' | 'normal' | 'nice-to-have';
+
+export const ITEM_PRIORITIES: ItemPriority[] = ['must-have', 'high', 'normal', 'nice-to-have'];
+
+// Longest wishlist or item name
+export const NAME_MAX_LENGTH = 100;
+
+// Longest note a giver can leave with a pledge
+export const PLEDGE_NOTE_MAX_LENGTH = 200;
+
+/**
+ * Units of an item one giver has claimed
+ */
+export interface IFulfilment {
+  user: mongoose.Types.ObjectId;
+  quantity: number;
+  purchased: boolean;
+  claimedAt: Date;
+  purchasedAt: Date | null;
+}
+
+/**
+ * One giver's contribution to a group gift (in the item's currency)
+ */
+export interface IPledge {
+  user: mongoose.Types.ObjectId;
+  amount: number;
+  note: string;
+  pledgedAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Pool of pledges for an expensive item
+ */
+export interface IGroupGift {
+  organizer: mongoose.Types.ObjectId | null; // first giver to pledge
+  pledges: IPledge[];
+  total: number; // sum of pledges[].amount, kept for atomic pledges
+  fundedAt: Date | null; // set once the total reaches the price
+  lockedAt: Date | null; // organizer closed the pool
+}
 
 /**
  * Interface for Item (embedded in Wishlist)
@@ -8,12 +90,101 @@ export interface IItem {
   name: string;
   description: string;
   price: number | null;
+  currency: string; // ISO 4217
   url: string;
-  isPurchased: boolean;
+  imageUrl: string;
+  metadata: IItemMetadata | null;
+  priceHistory: IPricePoint[];
+  priceWatches: IPriceWatch[]; // personal - each viewer only sees their own
+  position: number; // manual order, lowest first
+  quantity: number | null; // units wanted, null = any number
+  priority: ItemPriority;
+  fulfilments: IFulfilment[]; // one record per giver
+  fulfilledQuantity: number; // sum of fulfilments[].quantity, kept for atomic claims
+  groupGift: IGroupGift;
   addedBy: mongoose.Types.ObjectId;
+  version: number; // bumped when the details change, exposed as the item's ETag
   createdAt: Date;
+  deletedAt?: Date | null; // only set while the item is in the trash
+  deletedBy?: mongoose.Types.ObjectId | null;
+}
+
+/**
+ * An item about to be stored (the group gift comes from the schema default)
+ */
+export type NewItem = Omit<IItem, 'groupGift'>;
+
+/**
+ * An item as loaded with its wishlist (a subdocument: toObject, validateSync...)
+ */
+export type ItemDocument = mongoose.Types.Subdocument<mongoose.Types.ObjectId> & IItem;
+
+/**
+ * Collaborator roles, from least to most privileged
+ */
+export type CollaboratorRole = 'viewer' | 'editor' | 'manager';
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ['viewer', 'editor', 'manager'];
+
+/**
+ * Interface for Collaborator (embedded in Wishlist)
+ */
+export interface ICollaborator {
+  user: mongoose.Types.ObjectId;
+  role: CollaboratorRole;
+  addedAt: Date;
 }
 
+/**
+ * Kinds of occasion a wishlist can be for
+ */
+export type OccasionType =
+  | 'birthday'
+  | 'wedding'
+  | 'holiday'
+  | 'anniversary'
+  | 'graduation'
+  | 'baby'
+  | 'other';
+
+export const OCCASION_TYPES: OccasionType[] = [
+  'birthday',
+  'wedding',
+  'holiday',
+  'anniversary',
+  'graduation',
+  'baby',
+  'other',
+];
+
+// Reminder days used when a list doesn't pick its own
+export const DEFAULT_REMIND_DAYS = [14, 3];
+
+/**
+ * The event a wishlist is for
+ */
+export interface IOccasion {
+  type: OccasionType;
+  date: Date; // midnight UTC
+  recurrence: 'none' | 'yearly';
+  remindDaysBefore: number[]; // largest first
+  lastReminder: { occurrence: Date; daysBefore: number } | null;
+}
+
+/**
+ * Who can see a wishlist besides its members
+ */
+export type WishlistVisibility = 'private' | 'friends' | 'unlisted' | 'public';
+
+export const VISIBILITIES: WishlistVisibility[] = ['private', 'friends', 'unlisted', 'public'];
+
+/**
+ * Whether a wishlist is kept to its owner or shared with collaborators
+ */
+export type WishlistType = 'private' | 'collaborative';
+
+export const WISHLIST_TYPES: WishlistType[] = ['private', 'collaborative'];
+
 /**
  * Interface for Wishlist document
  */
@@ -21,14 +192,112 @@ export interface IWishlist extends Document {
   name: string;
   description: string;
   owner: mongoose.Types.ObjectId;
-  type: 'private' | 'collaborative';
-  items: IItem[];
-  collaborators: mongoose.Types.ObjectId[];
-  pendingInvites: string[]; // emails of people invited
+  type: WishlistType;
+  visibility: WishlistVisibility;
+  shareToken: string | null; // read-only link token, owner only
+  items: mongoose.Types.DocumentArray<ItemDocument>;
+  collaborators: ICollaborator[];
+  occasion: IOccasion | null;
+  archivedAt: Date | null; // one-off lists are archived after their occasion
+  trashedItems: mongoose.Types.DocumentArray<ItemDocument>; // deleted items, kept until restored or purged
+  deletedAt: Date | null; // in the trash - hidden from every normal query
+  deletedBy: mongoose.Types.ObjectId | null;
+  version: number; // bumped on every saved change, exposed as the ETag
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Item metadata Schema (embedded inside Item)
+ */
+const itemMetadataSchema = new Schema<IItemMetadata>(
+  {
+    title: { type: String, default: null },
+    description: { type: String, default: null },
+    image: { type: String, default: null },
+    price: { type: Number, default: null },
+    currency: { type: String, default: null },
+    siteName: { type: String, default: null },
+    fetchedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+/**
+ * Price point Schema (embedded inside Item)
+ */
+const pricePointSchema = new Schema<IPricePoint>(
+  {
+    price: { type: Number, required: true, min: 0 },
+    currency: { type: String, enum: CURRENCY_CODES, default: DEFAULT_CURRENCY },
+    source: { type: String, enum: ['manual', 'refresh'], default: 'manual' },
+    recordedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    recordedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+/**
+ * Price watch Schema (embedded inside Item)
+ */
+const priceWatchSchema = new Schema<IPriceWatch>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    targetPrice: { type: Number, min: [0, 'Target price cannot be negative'], default: null },
+    dropPercent: {
+      type: Number,
+      min: [1, 'Drop percent must be at least 1'],
+      max: [99, 'Drop percent cannot exceed 99'],
+      default: null,
+    },
+    basePrice: { type: Number, default: null },
+    lastAlertAt: { type: Date, default: null },
+  },
+  { _id: false }
+);
+
+/**
+ * Fulfilment Schema (embedded inside Item)
+ */
+const fulfilmentSchema = new Schema<IFulfilment>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    quantity: { type: Number, min: [1, 'Quantity must be at least 1'], default: 1 },
+    purchased: { type: Boolean, default: false },
+    claimedAt: { type: Date, default: Date.now },
+    purchasedAt: { type: Date, default: null },
+  },
+  { _id: false }
+);
+
+/**
+ * Pledge Schema (embedded inside GroupGift)
+ */
+const pledgeSchema = new Schema<IPledge>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    amount: { type: Number, required: true, min: [0.01, 'Pledge must be positive'] },
+    note: { type: String, trim: true, maxlength: PLEDGE_NOTE_MAX_LENGTH, default: '' },
+    pledgedAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+/**
+ * Group gift Schema (embedded inside Item)
+ */
+const groupGiftSchema = new Schema<IGroupGift>(
+  {
+    organizer: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    pledges: [pledgeSchema],
+    total: { type: Number, min: 0, default: 0 },
+    fundedAt: { type: Date, default: null },
+    lockedAt: { type: Date, default: null },
+  },
+  { _id: false }
+);
+
 /**
  * Item Schema (embedded inside Wishlist)
  */
@@ -38,7 +307,7 @@ const itemSchema = new Schema<IItem>(
       type: String,
       required: [true, 'Item name is required'],
       trim: true,
-      maxlength: [100, 'Item name cannot exceed 100 characters'],
+      maxlength: [NAME_MAX_LENGTH, `Item name cannot exceed ${NAME_MAX_LENGTH} characters`],
     },
     description: {
       type: String,
@@ -50,26 +319,128 @@ const itemSchema = new Schema<IItem>(
       min: [0, 'Price cannot be negative'],
       default: null,
     },
+    currency: {
+      type: String,
+      uppercase: true,
+      enum: {
+        values: CURRENCY_CODES,
+        message: '{VALUE} is not a valid ISO 4217 currency code',
+      },
+      default: DEFAULT_CURRENCY,
+    },
     url: {
       type: String,
       trim: true,
       default: '',
     },
-    isPurchased: {
-      type: Boolean,
-      default: false,
+    imageUrl: {
+      type: String,
+      trim: true,
+      default: '',
+    },
+    metadata: {
+      type: itemMetadataSchema,
+      default: null,
+    },
+    priceHistory: [pricePointSchema],
+    priceWatches: [priceWatchSchema],
+    position: {
+      type: Number,
+      default: 0,
+    },
+    quantity: {
+      type: Number,
+      min: [1, 'Quantity must be at least 1'],
+      validate: {
+        validator: (value: number | null) => value === null || Number.isInteger(value),
+        message: 'Quantity must be a whole number',
+      },
+      default: 1,
+    },
+    priority: {
+      type: String,
+      enum: {
+        values: ITEM_PRIORITIES,
+        message: `Priority must be one of: ${ITEM_PRIORITIES.join(', ')}`,
+      },
+      default: 'normal',
+    },
+    // Reservations - hidden from the wishlist owner so gifts stay a surprise
+    fulfilments: [fulfilmentSchema],
+    fulfilledQuantity: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    groupGift: {
+      type: groupGiftSchema,
+      default: () => ({}),
     },
     addedBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
       required: true,
     },
+    version: {
+      type: Number,
+      default: 0,
+    },
+    // Trash bookkeeping, only present on items in trashedItems
+    deletedAt: Date,
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
   },
   {
     timestamps: true,
   }
 );
 
+/**
+ * Collaborator Schema (embedded inside Wishlist)
+ */
+const collaboratorSchema = new Schema<ICollaborator>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: COLLABORATOR_ROLES,
+      default: 'editor',
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Occasion Schema (embedded inside Wishlist)
+ */
+const occasionSchema = new Schema<IOccasion>(
+  {
+    type: { type: String, enum: OCCASION_TYPES, default: 'other' },
+    date: { type: Date, required: true },
+    recurrence: { type: String, enum: ['none', 'yearly'], default: 'none' },
+    remindDaysBefore: { type: [Number], default: DEFAULT_REMIND_DAYS },
+    // Last reminder sent, so each one goes out once
+    lastReminder: {
+      type: new Schema(
+        { occurrence: Date, daysBefore: Number },
+        { _id: false }
+      ),
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
 /**
  * Wishlist Schema
  */
@@ -79,7 +450,7 @@ const wishlistSchema = new Schema<IWishlist>(
       type: String,
       required: [true, 'Wishlist name is required'],
       trim: true,
-      maxlength: [100, 'Wishlist name cannot exceed 100 characters'],
+      maxlength: [NAME_MAX_LENGTH, `Wishlist name cannot exceed ${NAME_MAX_LENGTH} characters`],
     },
     description: {
       type: String,
@@ -93,29 +464,99 @@ const wishlistSchema = new Schema<IWishlist>(
     },
     type: {
       type: String,
-      enum: ['private', 'collaborative'],
+      enum: WISHLIST_TYPES,
+      default: 'private',
+    },
+    visibility: {
+      type: String,
+      enum: VISIBILITIES,
       default: 'private',
     },
+    shareToken: {
+      type: String,
+      default: null,
+    },
     items: [itemSchema], // Embedded items array
-    collaborators: [
-      {
-        type: Schema.Types.ObjectId,
-        ref: 'User',
-      },
-    ],
-    pendingInvites: [
-      {
-        type: String, // Email addresses
-        lowercase: true,
-        trim: true,
-      },
-    ],
+    collaborators: [collaboratorSchema],
+    occasion: {
+      type: occasionSchema,
+      default: null,
+    },
+    archivedAt: {
+      type: Date,
+      default: null,
+    },
+    trashedItems: [itemSchema],
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    version: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+/**
+ * Share tokens must be unique, but many wishlists have none
+ */
+wishlistSchema.index(
+  { shareToken: 1 },
+  { unique: true, partialFilterExpression: { shareToken: { $type: 'string' } } }
+);
+
+/**
+ * Full-text search over lists and their items (GET /api/search)
+ */
+wishlistSchema.index(
+  {
+    name: 'text',
+    description: 'text',
+    'items.name': 'text',
+    'items.description': 'text',
+    'items.url': 'text',
+  },
+  {
+    name: 'wishlist_text_search',
+    weights: { name: 5, 'items.name': 5, description: 2, 'items.description': 2, 'items.url': 1 },
+  }
+);
+
+/**
+ * Finding trash to purge
+ */
+wishlistSchema.index({ deletedAt: 1 }, { partialFilterExpression: { deletedAt: { $type: 'date' } } });
+wishlistSchema.index({ 'trashedItems.deletedAt': 1 });
+
+/**
+ * Every saved change is a new version. Atomic updates bump it themselves
+ * (except claims and pledges, which the owner mustn't notice).
+ */
+wishlistSchema.pre('save', function () {
+  if (!this.isNew && this.isModified()) this.version += 1;
+});
+
+/**
+ * Trashed wishlists are left out of every query that doesn't filter on deletedAt itself
+ */
+wishlistSchema.pre(
+  ['find', 'findOne', 'findOneAndUpdate', 'countDocuments', 'updateOne', 'updateMany'],
+  function () {
+    if (!Object.prototype.hasOwnProperty.call(this.getFilter(), 'deletedAt')) {
+      this.where({ deletedAt: null });
+    }
+  }
+);
+
 /**
  * Wishlist Model
  */
@@ -1,14 +1,52 @@
 import express from 'express';
-import { register, login, getMe } from '../controllers/authControllers';
+import {
+  register,
+  login,
+  getMe,
+  refresh,
+  logout,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  verifyEmail,
+  resendVerification,
+  updatePreferences,
+} from '../controllers/authControllers';
 import { protect } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  registerBody,
+  loginBody,
+  refreshBody,
+  forgotPasswordBody,
+  resetPasswordBody,
+  verifyEmailBody,
+  changePasswordBody,
+  preferencesBody,
+  sessionParams,
+} from '../schemas/auth';
 
 const router = express.Router();
 
 // Public routes (no authentication required)
-router.post('/register', register);
-router.post('/login', login);
+router.post('/register', validate({ body: registerBody }), register);
+router.post('/login', validate({ body: loginBody }), login);
+router.post('/refresh', validate({ body: refreshBody }), refresh);
+router.post('/forgot-password', validate({ body: forgotPasswordBody }), forgotPassword);
+router.post('/reset-password', validate({ body: resetPasswordBody }), resetPassword);
+router.post('/verify-email', validate({ body: verifyEmailBody }), verifyEmail);
 
-// Protected route (authentication required)
+// Protected routes (authentication required)
 router.get('/me', protect, getMe);
+router.put('/preferences', protect, validate({ body: preferencesBody }), updatePreferences);
+router.post('/logout', protect, logout);
+router.put('/change-password', protect, validate({ body: changePasswordBody }), changePassword);
+router.post('/resend-verification', protect, resendVerification);
+router.get('/sessions', protect, getSessions);
+router.delete('/sessions', protect, revokeOtherSessions);
+router.delete('/sessions/:sessionId', protect, validate({ params: sessionParams }), revokeSession);
 
 export default router;
\ No newline at end of file
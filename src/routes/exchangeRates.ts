@@ -0,0 +1,15 @@
+import express from 'express';
+import { getRates, convert } from '../controllers/currencyController';
+import { protect } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { convertQuery } from '../schemas/currency';
+
+const router = express.Router();
+
+// All routes are protected (require login)
+router.use(protect);
+
+router.get('/', getRates);
+router.get('/convert', validate({ query: convertQuery }), convert);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from 'express';
+import { getFeed } from '../controllers/feedController';
+import { protect } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { feedQuery } from '../schemas/wishlist';
+
+const router = express.Router();
+
+// All routes are protected (require login)
+router.use(protect);
+
+router.get('/', validate({ query: feedQuery }), getFeed);
+
+export default router;
@@ -0,0 +1,39 @@
+import express from 'express';
+import {
+  getFriends,
+  removeFriend,
+  getFriendRequests,
+  sendFriendRequest,
+  acceptFriendRequest,
+  declineFriendRequest,
+  cancelFriendRequest,
+  getBlockedUsers,
+  blockUser,
+  unblockUser,
+} from '../controllers/friendController';
+import { protect } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { requestParams, userParams, friendTargetBody } from '../schemas/friends';
+
+const router = express.Router();
+
+// All routes are protected (require login)
+router.use(protect);
+
+// Requests
+router.get('/requests', getFriendRequests);
+router.post('/requests', validate({ body: friendTargetBody }), sendFriendRequest);
+router.post('/requests/:requestId/accept', validate({ params: requestParams }), acceptFriendRequest);
+router.post('/requests/:requestId/decline', validate({ params: requestParams }), declineFriendRequest);
+router.delete('/requests/:requestId', validate({ params: requestParams }), cancelFriendRequest);
+
+// Blocking
+router.get('/blocks', getBlockedUsers);
+router.post('/blocks', validate({ body: friendTargetBody }), blockUser);
+router.delete('/blocks/:userId', validate({ params: userParams }), unblockUser);
+
+// Friends
+router.get('/', getFriends);
+router.delete('/:userId', validate({ params: userParams }), removeFriend);
+
+export default router;
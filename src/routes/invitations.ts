@@ -0,0 +1,18 @@
+import express from 'express';
+import {
+  getMyInvitations,
+  acceptInvitation,
+  declineInvitation,
+} from '../controllers/invitationController';
+import { protect, requireVerifiedEmail } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes are protected (require login)
+router.use(protect);
+
+router.get('/', getMyInvitations);
+router.post('/:token/accept', requireVerifiedEmail('acceptInvite'), acceptInvitation);
+router.post('/:token/decline', declineInvitation);
+
+export default router;
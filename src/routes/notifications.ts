@@ -0,0 +1,25 @@
+import express from 'express';
+import {
+  getNotifications,
+  markRead,
+  markAllRead,
+  getPreferences,
+  updatePreferences,
+} from '../controllers/notificationController';
+import { protect } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes are protected (require login)
+router.use(protect);
+
+// Feed
+router.get('/', getNotifications);
+router.post('/read-all', markAllRead);
+router.post('/:id/read', markRead);
+
+// Preferences
+router.get('/preferences', getPreferences);
+router.put('/preferences', updatePreferences);
+
+export default router;
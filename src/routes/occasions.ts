@@ -0,0 +1,12 @@
+import express from 'express';
+import { getUpcomingOccasions } from '../controllers/occasionController';
+import { protect } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes are protected (require login)
+router.use(protect);
+
+router.get('/upcoming', getUpcomingOccasions);
+
+export default router;
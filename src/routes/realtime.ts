@@ -0,0 +1,13 @@
+import express from 'express';
+import { streamEvents } from '../controllers/realtimeController';
+import { protect, tokenFromQuery } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes are protected (require login); EventSource sends the token as ?access_token=
+router.use(tokenFromQuery, protect);
+
+// Live wishlist events (Server-Sent Events)
+router.get('/', streamEvents);
+
+export default router;
@@ -0,0 +1,12 @@
+import express from 'express';
+import { search } from '../controllers/searchController';
+import { protect } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes are protected (require login)
+router.use(protect);
+
+router.get('/', search);
+
+export default router;
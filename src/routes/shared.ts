@@ -0,0 +1,9 @@
+import express from 'express';
+import { getSharedWishlist } from '../controllers/shareController';
+
+const router = express.Router();
+
+// Public route (anyone with the link, no login)
+router.get('/:token', getSharedWishlist);
+
+export default router;
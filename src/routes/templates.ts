@@ -0,0 +1,27 @@
+import express from 'express';
+import {
+  getTemplates,
+  getTemplate,
+  deleteTemplate,
+  useTemplate,
+} from '../controllers/templateController';
+import { protect, requireVerifiedEmail } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { useTemplateBody } from '../schemas/wishlist';
+
+const router = express.Router();
+
+// All routes are protected (require login)
+router.use(protect);
+
+router.get('/', getTemplates);
+router.get('/:templateId', getTemplate);
+router.delete('/:templateId', deleteTemplate);
+router.post(
+  '/:templateId/use',
+  requireVerifiedEmail('createWishlist'),
+  validate({ body: useTemplateBody }),
+  useTemplate
+);
+
+export default router;
@@ -0,0 +1,17 @@
+import express from 'express';
+import { getTrash, restoreWishlist, purgeWishlist } from '../controllers/trashController';
+import { protect } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { idParams } from '../schemas/common';
+
+const router = express.Router();
+
+// All routes are protected (require login)
+router.use(protect);
+
+// Deleted wishlists (owner only; items have a trash per wishlist)
+router.get('/', getTrash);
+router.post('/:id/restore', validate({ params: idParams }), restoreWishlist);
+router.delete('/:id', validate({ params: idParams }), purgeWishlist);
+
+export default router;
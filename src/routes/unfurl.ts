@@ -0,0 +1,12 @@
+import express from 'express';
+import { previewUrl } from '../controllers/unfurlController';
+import { protect } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes are protected (require login)
+router.use(protect);
+
+router.post('/', previewUrl);
+
+export default router;
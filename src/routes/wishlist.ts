@@ -8,30 +8,181 @@ import {
   addItem,
   updateItem,
   deleteItem,
+  claimItem,
+  releaseItem,
   inviteCollaborator,
   removeCollaborator,
+  updateCollaboratorRole,
 } from '../controllers/wishlistController';
-import { protect } from '../middleware/auth';
+import {
+  createShareLink,
+  rotateShareLink,
+  revokeShareLink,
+} from '../controllers/shareController';
+import {
+  getWishlistInvitations,
+  cancelInvitation,
+} from '../controllers/invitationController';
+import { getWishlistActivity } from '../controllers/activityController';
+import {
+  getPriceHistory,
+  setPriceWatch,
+  removePriceWatch,
+} from '../controllers/priceController';
+import { reorderItems, moveItem, copyItem } from '../controllers/itemOrderController';
+import {
+  getPool,
+  createPledge,
+  updatePledge,
+  withdrawPledge,
+  lockPool,
+  unlockPool,
+} from '../controllers/pledgeController';
+import {
+  exportWishlist,
+  exportAllWishlists,
+  importWishlist,
+  importIntoWishlist,
+} from '../controllers/importExportController';
+import { cloneWishlist, saveAsTemplate } from '../controllers/templateController';
+import { getItemTrash, restoreItem, purgeItem } from '../controllers/trashController';
+import { getPresence } from '../controllers/realtimeController';
+import { protect, requireVerifiedEmail } from '../middleware/auth';
+import { authorizeWishlist } from '../middleware/wishlistAccess';
+import { validate } from '../middleware/validate';
+import { idParams } from '../schemas/common';
+import {
+  itemParams,
+  collaboratorParams,
+  invitationParams,
+  createWishlistBody,
+  updateWishlistBody,
+  myWishlistsQuery,
+  wishlistQuery,
+  cloneBody,
+  saveTemplateBody,
+  exportQuery,
+  importQuery,
+  importBody,
+  addItemBody,
+  updateItemBody,
+  reorderBody,
+  moveItemBody,
+  priceWatchBody,
+  claimBody,
+  releaseQuery,
+  pledgeBody,
+  updatePledgeBody,
+  activityQuery,
+  inviteBody,
+  collaboratorRoleBody,
+} from '../schemas/wishlist';
 
 const router = express.Router();
 
+// Imports can also be sent as a raw CSV body
+const csvBody = express.text({ type: 'text/csv', limit: '1mb' });
+
+// Requests are validated before the wishlist is loaded, so a bad ID is a 400, not a lookup
+const onList = validate({ params: idParams });
+const onItem = validate({ params: itemParams });
+
 // All routes are protected (require login)
 router.use(protect);
 
 // Wishlist CRUD
-router.post('/', createWishlist);
-router.get('/', getMyWishlists);
-router.get('/:id', getWishlist);
-router.put('/:id', updateWishlist);
-router.delete('/:id', deleteWishlist);
+router.post('/', requireVerifiedEmail('createWishlist'), validate({ body: createWishlistBody }), createWishlist);
+router.get('/', validate({ query: myWishlistsQuery }), getMyWishlists);
+
+// Import / export (before /:id so "export" isn't taken for an ID)
+router.get('/export', validate({ query: exportQuery }), exportAllWishlists);
+router.post(
+  '/import',
+  requireVerifiedEmail('createWishlist'),
+  csvBody,
+  validate({ query: importQuery, body: importBody }),
+  importWishlist
+);
+router.get('/:id/export', validate({ params: idParams, query: exportQuery }), authorizeWishlist('view'), exportWishlist);
+router.post(
+  '/:id/import',
+  csvBody,
+  validate({ params: idParams, query: importQuery, body: importBody }),
+  authorizeWishlist('addItems'),
+  importIntoWishlist
+);
+
+router.get('/:id', validate({ params: idParams, query: wishlistQuery }), authorizeWishlist('view', { allowPublic: true }), getWishlist);
+router.put('/:id', validate({ params: idParams, body: updateWishlistBody }), authorizeWishlist('manageSettings'), updateWishlist);
+router.delete('/:id', onList, authorizeWishlist('deleteWishlist'), deleteWishlist);
+
+// Cloning and templates
+router.post(
+  '/:id/clone',
+  requireVerifiedEmail('createWishlist'),
+  validate({ params: idParams, body: cloneBody }),
+  authorizeWishlist('view'),
+  cloneWishlist
+);
+router.post('/:id/template', validate({ params: idParams, body: saveTemplateBody }), authorizeWishlist('view'), saveAsTemplate);
+
+// Items (own vs others' items is checked in the handler)
+router.post('/:id/items', validate({ params: idParams, body: addItemBody }), authorizeWishlist('addItems'), addItem);
+router.put('/:id/items/order', validate({ params: idParams, body: reorderBody }), authorizeWishlist('editOthersItems'), reorderItems);
+router.put('/:id/items/:itemId', validate({ params: itemParams, body: updateItemBody }), authorizeWishlist('view'), updateItem);
+router.delete('/:id/items/:itemId', onItem, authorizeWishlist('view'), deleteItem);
+router.post('/:id/items/:itemId/move', validate({ params: itemParams, body: moveItemBody }), authorizeWishlist('view'), moveItem);
+router.post('/:id/items/:itemId/copy', validate({ params: itemParams, body: moveItemBody }), authorizeWishlist('view'), copyItem);
+
+// Deleted items (restoring or purging needs the same rights as deleting)
+router.get('/:id/trash', onList, authorizeWishlist('view'), getItemTrash);
+router.post('/:id/trash/:itemId/restore', onItem, authorizeWishlist('view'), restoreItem);
+router.delete('/:id/trash/:itemId', onItem, authorizeWishlist('view'), purgeItem);
+
+// Price tracking (alerts are personal)
+router.get('/:id/items/:itemId/price-history', onItem, authorizeWishlist('view'), getPriceHistory);
+router.put('/:id/items/:itemId/price-watch', validate({ params: itemParams, body: priceWatchBody }), authorizeWishlist('view'), setPriceWatch);
+router.delete('/:id/items/:itemId/price-watch', onItem, authorizeWishlist('view'), removePriceWatch);
+
+// Reservations (hidden from the owner)
+router.post('/:id/items/:itemId/claim', validate({ params: itemParams, body: claimBody }), authorizeWishlist('claimItems'), claimItem);
+router.delete('/:id/items/:itemId/claim', validate({ params: itemParams, query: releaseQuery }), authorizeWishlist('claimItems'), releaseItem);
+
+// Group gifts (hidden from the owner)
+router.get('/:id/items/:itemId/pledges', onItem, authorizeWishlist('pledge'), getPool);
+router.post('/:id/items/:itemId/pledges', validate({ params: itemParams, body: pledgeBody }), authorizeWishlist('pledge'), createPledge);
+router.put('/:id/items/:itemId/pledges/mine', validate({ params: itemParams, body: updatePledgeBody }), authorizeWishlist('pledge'), updatePledge);
+router.delete('/:id/items/:itemId/pledges/mine', onItem, authorizeWishlist('pledge'), withdrawPledge);
+router.post('/:id/items/:itemId/pledges/lock', onItem, authorizeWishlist('pledge'), lockPool);
+router.delete('/:id/items/:itemId/pledges/lock', onItem, authorizeWishlist('pledge'), unlockPool);
+
+// Activity log
+router.get('/:id/activity', validate({ params: idParams, query: activityQuery }), authorizeWishlist('view'), getWishlistActivity);
+
+// Who has a live event stream open on the list
+router.get('/:id/presence', onList, authorizeWishlist('view', { allowPublic: true }), getPresence);
 
-// Items
-router.post('/:id/items', addItem);
-router.put('/:id/items/:itemId', updateItem);
-router.delete('/:id/items/:itemId', deleteItem);
+// Share links
+router.post('/:id/share', onList, authorizeWishlist('manageSettings'), createShareLink);
+router.post('/:id/share/rotate', onList, authorizeWishlist('manageSettings'), rotateShareLink);
+router.delete('/:id/share', onList, authorizeWishlist('manageSettings'), revokeShareLink);
 
 // Collaboration
-router.post('/:id/invite', inviteCollaborator);
-router.delete('/:id/collaborators/:userId', removeCollaborator);
+router.post(
+  '/:id/invite',
+  requireVerifiedEmail('invite'),
+  validate({ params: idParams, body: inviteBody }),
+  authorizeWishlist('invite'),
+  inviteCollaborator
+);
+router.get('/:id/invitations', onList, authorizeWishlist('invite'), getWishlistInvitations);
+router.delete('/:id/invitations/:inviteId', validate({ params: invitationParams }), authorizeWishlist('invite'), cancelInvitation);
+router.put(
+  '/:id/collaborators/:userId',
+  validate({ params: collaboratorParams, body: collaboratorRoleBody }),
+  authorizeWishlist('manageCollaborators'),
+  updateCollaboratorRole
+);
+router.delete('/:id/collaborators/:userId', validate({ params: collaboratorParams }), authorizeWishlist('manageCollaborators'), removeCollaborator);
 
-export default router;
\ No newline at end of file
+export default router;
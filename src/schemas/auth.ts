@@ -0,0 +1,54 @@
+import { v, Infer } from '../utils/validation';
+import { currency, email, username, password } from './common';
+
+export const registerBody = v.object({
+  username: username(),
+  email: email(),
+  password: password(),
+  age: v.optional(v.nullable(v.number({ min: 0 }))),
+});
+
+// Login only looks the account up, so any address format is let through
+export const loginBody = v.object({
+  email: v.string({ min: 1, lowercase: true }),
+  password: v.string({ min: 1, trim: false }),
+});
+
+export const refreshBody = v.object({
+  refreshToken: v.string({ min: 1 }),
+});
+
+export const forgotPasswordBody = v.object({
+  email: v.string({ min: 1, lowercase: true }),
+});
+
+export const resetPasswordBody = v.object({
+  token: v.string({ min: 1 }),
+  password: password(),
+});
+
+export const verifyEmailBody = v.object({
+  token: v.string({ min: 1 }),
+});
+
+export const changePasswordBody = v.object({
+  currentPassword: v.string({ min: 1, trim: false }),
+  newPassword: password(),
+});
+
+export const preferencesBody = v.object({
+  preferredCurrency: v.optional(currency()),
+});
+
+export const sessionParams = v.object({
+  sessionId: v.objectId(),
+});
+
+export type RegisterBody = Infer<typeof registerBody>;
+export type LoginBody = Infer<typeof loginBody>;
+export type RefreshBody = Infer<typeof refreshBody>;
+export type ForgotPasswordBody = Infer<typeof forgotPasswordBody>;
+export type ResetPasswordBody = Infer<typeof resetPasswordBody>;
+export type VerifyEmailBody = Infer<typeof verifyEmailBody>;
+export type ChangePasswordBody = Infer<typeof changePasswordBody>;
+export type PreferencesBody = Infer<typeof preferencesBody>;
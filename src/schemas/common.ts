@@ -0,0 +1,57 @@
+import { v } from '../utils/validation';
+import { ListQueryOptions, DEFAULT_MAX_LIMIT, decodeCursor } from '../utils/pagination';
+import { CURRENCY_CODES } from '../config/currencies';
+import {
+  EMAIL_PATTERN,
+  USERNAME_MIN_LENGTH,
+  USERNAME_MAX_LENGTH,
+  PASSWORD_MIN_LENGTH,
+} from '../models/User';
+
+/**
+ * ISO 4217 code, any case (stored upper-case)
+ */
+export const currency = () =>
+  v.string({
+    uppercase: true,
+    oneOf: CURRENCY_CODES,
+    message: 'must be an ISO 4217 code like USD or EUR',
+  });
+
+/**
+ * Email address, stored lower-case like the User model does
+ */
+export const email = () =>
+  v.string({ lowercase: true, pattern: EMAIL_PATTERN, message: 'must be a valid email' });
+
+export const username = () => v.string({ min: USERNAME_MIN_LENGTH, max: USERNAME_MAX_LENGTH });
+
+// Passwords are taken exactly as typed
+export const password = () => v.string({ min: PASSWORD_MIN_LENGTH, trim: false });
+
+/**
+ * ?sort=&limit=&cursor= for a list with these sort fields and largest limit
+ */
+export const listQueryFields = ({
+  sortFields,
+  maxLimit = DEFAULT_MAX_LIMIT,
+}: ListQueryOptions) => ({
+  sort: v.optional(
+    v.oneOf(
+      sortFields.flatMap((field) => [field, `-${field}`]),
+      `must be one of: ${sortFields.join(', ')} (prefix with - for descending)`
+    )
+  ),
+  limit: v.optional(v.number({ integer: true, min: 1, max: maxLimit })),
+  cursor: v.optional(
+    v.custom(
+      (value) => (typeof value === 'string' ? decodeCursor(value) : null),
+      'is not a valid cursor'
+    )
+  ),
+});
+
+/**
+ * Routes on a single document (/:id)
+ */
+export const idParams = v.object({ id: v.objectId() });
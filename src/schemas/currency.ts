@@ -0,0 +1,10 @@
+import { v, Infer } from '../utils/validation';
+import { currency } from './common';
+
+export const convertQuery = v.object({
+  amount: v.number(),
+  from: currency(),
+  to: currency(),
+});
+
+export type ConvertQuery = Infer<typeof convertQuery>;
@@ -0,0 +1,13 @@
+import { v, Infer } from '../utils/validation';
+
+export const requestParams = v.object({ requestId: v.objectId() });
+
+export const userParams = v.object({ userId: v.objectId() });
+
+// Who a friend request or block is about, by ID or username
+export const friendTargetBody = v.object({
+  userId: v.optional(v.objectId()),
+  username: v.optional(v.string({ min: 1 })),
+});
+
+export type FriendTargetBody = Infer<typeof friendTargetBody>;
@@ -0,0 +1,30 @@
+import { v, Infer } from '../utils/validation';
+import { ListQueryOptions } from '../utils/pagination';
+import { email, username, listQueryFields } from './common';
+
+export const USER_LIST_OPTIONS: ListQueryOptions = {
+  sortFields: ['createdAt', 'username'],
+  defaultSort: 'createdAt',
+};
+
+export const listUsersQuery = v.object({
+  ...listQueryFields(USER_LIST_OPTIONS),
+  search: v.optional(v.string()),
+});
+
+export const createUserBody = v.object({
+  username: username(),
+  email: email(),
+  age: v.optional(v.nullable(v.number({ min: 0 }))),
+});
+
+export const updateUserBody = v.object({
+  username: v.optional(username()),
+  email: v.optional(email()),
+  age: v.optional(v.nullable(v.number({ min: 0 }))),
+  currentPassword: v.optional(v.string({ min: 1, trim: false })), // needed to change the email
+});
+
+export type ListUsersQuery = Infer<typeof listUsersQuery>;
+export type CreateUserBody = Infer<typeof createUserBody>;
+export type UpdateUserBody = Infer<typeof updateUserBody>;
@@ -0,0 +1,255 @@
+import { v, Infer } from '../utils/validation';
+import {
+  COLLABORATOR_ROLES,
+  ITEM_PRIORITIES,
+  NAME_MAX_LENGTH,
+  OCCASION_TYPES,
+  PLEDGE_NOTE_MAX_LENGTH,
+  VISIBILITIES,
+  WISHLIST_TYPES,
+} from '../models/Wishlist';
+import { WISHLIST_EVENT_TYPES } from '../utils/events';
+import { ListQueryOptions } from '../utils/pagination';
+import { currency, email, listQueryFields } from './common';
+
+// ==========================================
+// PARAMS
+// ==========================================
+
+export const itemParams = v.object({ id: v.objectId(), itemId: v.objectId() });
+
+export const collaboratorParams = v.object({ id: v.objectId(), userId: v.objectId() });
+
+export const invitationParams = v.object({ id: v.objectId(), inviteId: v.objectId() });
+
+// ==========================================
+// WISHLISTS
+// ==========================================
+
+const wishlistName = v.string({ min: 1, max: NAME_MAX_LENGTH });
+
+/**
+ * An occasion (null clears it); defaults are filled in by occasionWithDefaults
+ */
+const occasion = v.nullable(
+  v.object({
+    type: v.optional(v.oneOf(OCCASION_TYPES)),
+    date: v.date(),
+    recurrence: v.optional(v.oneOf(['none', 'yearly'] as const)),
+    remindDaysBefore: v.optional(v.array(v.number({ integer: true, min: 0, max: 365 }))),
+  })
+);
+
+export const createWishlistBody = v.object({
+  name: wishlistName,
+  description: v.optional(v.string()),
+  type: v.optional(v.oneOf(WISHLIST_TYPES)),
+  visibility: v.optional(v.oneOf(VISIBILITIES)),
+  occasion: v.optional(occasion),
+});
+
+export const updateWishlistBody = v.object({
+  name: v.optional(wishlistName),
+  description: v.optional(v.string()),
+  type: v.optional(v.oneOf(WISHLIST_TYPES)),
+  visibility: v.optional(v.oneOf(VISIBILITIES)),
+  archived: v.optional(v.boolean()),
+  occasion: v.optional(occasion),
+});
+
+export const MY_WISHLISTS_LIST_OPTIONS: ListQueryOptions = {
+  sortFields: ['createdAt', 'updatedAt', 'name'],
+  defaultSort: '-createdAt', // Newest first
+};
+
+// Items of one wishlist
+export const ITEM_LIST_OPTIONS: ListQueryOptions = {
+  sortFields: ['position', 'createdAt', 'updatedAt', 'name', 'price', 'priority'],
+  defaultSort: 'position',
+  defaultLimit: 50,
+  maxLimit: 200,
+};
+
+// Friends' recently updated wishlists
+export const FEED_LIST_OPTIONS: ListQueryOptions = {
+  sortFields: ['updatedAt'],
+  defaultSort: '-updatedAt',
+};
+
+export const myWishlistsQuery = v.object({
+  ...listQueryFields(MY_WISHLISTS_LIST_OPTIONS),
+  role: v.optional(v.oneOf(['owner', 'collaborator'] as const)),
+  type: v.optional(v.oneOf(WISHLIST_TYPES)),
+  visibility: v.optional(v.oneOf(VISIBILITIES)),
+  archived: v.optional(v.boolean()),
+  updatedSince: v.optional(v.date()),
+  currency: v.optional(currency()),
+});
+
+export const wishlistQuery = v.object({
+  ...listQueryFields(ITEM_LIST_OPTIONS),
+  priority: v.optional(v.oneOf(ITEM_PRIORITIES)),
+  addedBy: v.optional(v.either(v.oneOf(['me'] as const), v.objectId())),
+  currency: v.optional(currency()),
+});
+
+export const feedQuery = v.object(listQueryFields(FEED_LIST_OPTIONS));
+
+export const cloneBody = v.object({
+  name: v.optional(wishlistName),
+  keepCollaborators: v.optional(v.boolean()),
+  occasion: v.optional(occasion),
+});
+
+export const saveTemplateBody = v.object({
+  name: v.optional(wishlistName),
+  description: v.optional(v.string()),
+});
+
+// The occasion's type defaults to the template's
+export const useTemplateBody = v.object({
+  name: v.optional(wishlistName),
+  description: v.optional(v.string()),
+  type: v.optional(v.oneOf(WISHLIST_TYPES)),
+  visibility: v.optional(v.oneOf(VISIBILITIES)),
+  occasion: v.optional(occasion),
+});
+
+// ==========================================
+// IMPORT / EXPORT
+// ==========================================
+
+export const exportQuery = v.object({
+  format: v.optional(v.oneOf(['json', 'csv'] as const)),
+});
+
+// A new list's details, from the request or from the file (JSON exports carry them)
+const importedWishlistFields = {
+  name: v.optional(wishlistName),
+  description: v.optional(v.string()),
+  type: v.optional(v.oneOf(WISHLIST_TYPES)),
+  visibility: v.optional(v.oneOf(VISIBILITIES)),
+};
+
+export const importedWishlistDetails = v.object(importedWishlistFields);
+
+// The list's own details may come from the file, so none are required here
+const importOptions = {
+  format: v.optional(v.oneOf(['json', 'csv'] as const)),
+  ...importedWishlistFields,
+  dryRun: v.optional(v.boolean()),
+  duplicates: v.optional(v.oneOf(['skip', 'allow'] as const)),
+};
+
+// Options go in the query string when the body is raw text/csv
+export const importQuery = v.object(importOptions);
+
+export const importBody = v.either(
+  v.string({ trim: false }),
+  v.object({ ...importOptions, data: v.optional(v.any()) })
+);
+
+// ==========================================
+// ITEMS
+// ==========================================
+
+const itemFields = {
+  description: v.optional(v.string()),
+  price: v.optional(v.nullable(v.number({ min: 0 }))),
+  currency: v.optional(currency()),
+  quantity: v.optional(v.nullable(v.number({ integer: true, min: 1 }))), // null = any number
+  priority: v.optional(v.oneOf(ITEM_PRIORITIES)),
+  url: v.optional(v.string()),
+};
+
+// The name may be left blank when it can be read from the URL
+export const addItemBody = v.object({
+  name: v.optional(v.string({ max: NAME_MAX_LENGTH })),
+  ...itemFields,
+  autofill: v.optional(v.boolean()),
+});
+
+export const updateItemBody = v.object({
+  name: v.optional(v.string({ min: 1, max: NAME_MAX_LENGTH })),
+  ...itemFields,
+  isPurchased: v.optional(v.boolean()),
+});
+
+export const reorderBody = v.object({
+  itemIds: v.array(v.objectId(), { min: 1, unique: true }),
+});
+
+export const moveItemBody = v.object({
+  targetWishlistId: v.objectId(),
+});
+
+export const priceWatchBody = v.object({
+  targetPrice: v.optional(v.nullable(v.number({ min: 0 }))),
+  dropPercent: v.optional(v.nullable(v.number({ min: 1, max: 99 }))),
+});
+
+// ==========================================
+// CLAIMS AND GROUP GIFTS
+// ==========================================
+
+export const claimBody = v.object({
+  quantity: v.optional(v.number({ integer: true, min: 1 })),
+});
+
+export const releaseQuery = v.object({
+  quantity: v.optional(v.number({ integer: true, min: 1 })),
+});
+
+export const pledgeBody = v.object({
+  amount: v.number({ min: 0.01 }),
+  note: v.optional(v.string({ max: PLEDGE_NOTE_MAX_LENGTH })),
+});
+
+export const updatePledgeBody = v.object({
+  amount: v.optional(v.number({ min: 0.01 })),
+  note: v.optional(v.string({ max: PLEDGE_NOTE_MAX_LENGTH })),
+});
+
+// ==========================================
+// ACTIVITY AND COLLABORATION
+// ==========================================
+
+export const activityQuery = v.object({
+  page: v.optional(v.number({ integer: true, min: 1 })),
+  limit: v.optional(v.number({ integer: true, min: 1, max: 100 })),
+  actor: v.optional(v.objectId()),
+  action: v.optional(v.oneOf(WISHLIST_EVENT_TYPES)),
+});
+
+export const inviteBody = v.object({
+  email: email(),
+  role: v.optional(v.oneOf(COLLABORATOR_ROLES)),
+});
+
+export const collaboratorRoleBody = v.object({
+  role: v.oneOf(COLLABORATOR_ROLES),
+});
+
+export type CreateWishlistBody = Infer<typeof createWishlistBody>;
+export type UpdateWishlistBody = Infer<typeof updateWishlistBody>;
+export type MyWishlistsQuery = Infer<typeof myWishlistsQuery>;
+export type WishlistQuery = Infer<typeof wishlistQuery>;
+export type FeedQuery = Infer<typeof feedQuery>;
+export type CloneBody = Infer<typeof cloneBody>;
+export type SaveTemplateBody = Infer<typeof saveTemplateBody>;
+export type UseTemplateBody = Infer<typeof useTemplateBody>;
+export type OccasionBody = Infer<typeof occasion>;
+export type ExportQuery = Infer<typeof exportQuery>;
+export type ImportedWishlistDetails = Infer<typeof importedWishlistDetails>;
+export type AddItemBody = Infer<typeof addItemBody>;
+export type UpdateItemBody = Infer<typeof updateItemBody>;
+export type ReorderBody = Infer<typeof reorderBody>;
+export type MoveItemBody = Infer<typeof moveItemBody>;
+export type PriceWatchBody = Infer<typeof priceWatchBody>;
+export type ClaimBody = Infer<typeof claimBody>;
+export type ReleaseQuery = Infer<typeof releaseQuery>;
+export type PledgeBody = Infer<typeof pledgeBody>;
+export type UpdatePledgeBody = Infer<typeof updatePledgeBody>;
+export type ActivityQuery = Infer<typeof activityQuery>;
+export type InviteBody = Infer<typeof inviteBody>;
+export type CollaboratorRoleBody = Infer<typeof collaboratorRoleBody>;
@@ -0,0 +1,41 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { readRateTable } from '../utils/currency';
+
+dotenv.config();
+
+/**
+ * Import an exchange rate table into the file the server reads
+ * Usage: npm run rates:import -- path/to/rates.json
+ */
+const main = (): void => {
+  const source = process.argv[2];
+  const target = process.env.EXCHANGE_RATES_FILE;
+
+  if (!source) {
+    console.error('Usage: npm run rates:import -- path/to/rates.json');
+    process.exit(1);
+  }
+
+  if (!target) {
+    console.error('Set EXCHANGE_RATES_FILE to the file the server should read rates from');
+    process.exit(1);
+  }
+
+  try {
+    // Validates before anything is written
+    const table = readRateTable(source);
+
+    fs.writeFileSync(target, JSON.stringify(table, null, 2) + '\n');
+
+    console.log(
+      `✅ Imported ${Object.keys(table.rates).length} rates (base ${table.base}) into ${target}`
+    );
+    console.log('Restart the server to use them.');
+  } catch (error: any) {
+    console.error('❌ Import failed:', error.message);
+    process.exit(1);
+  }
+};
+
+main();
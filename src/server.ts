@@ -4,9 +4,40 @@ dotenv.config();
 import express, { Request, Response } from 'express';
 import cors from 'cors';
 import { connectDB } from './config/database';
+import { runMigrations } from './migrations';
 import authRoutes from './routes/auth';
 import wishlistRoutes from './routes/wishlist';
-import { protect } from './middleware/auth';
+import sharedRoutes from './routes/shared';
+import invitationRoutes from './routes/invitations';
+import notificationRoutes from './routes/notifications';
+import unfurlRoutes from './routes/unfurl';
+import exchangeRateRoutes from './routes/exchangeRates';
+import searchRoutes from './routes/search';
+import occasionRoutes from './routes/occasions';
+import friendRoutes from './routes/friends';
+import feedRoutes from './routes/feed';
+import templateRoutes from './routes/templates';
+import trashRoutes from './routes/trash';
+import realtimeRoutes from './routes/realtime';
+import { protect, AuthRequest } from './middleware/auth';
+import { validate } from './middleware/validate';
+import { idParams } from './schemas/common';
+import {
+  listUsersQuery,
+  createUserBody,
+  updateUserBody,
+  ListUsersQuery,
+  USER_LIST_OPTIONS,
+} from './schemas/users';
+import { registerNotificationListeners } from './utils/notifications';
+import { registerActivityListeners } from './utils/activity';
+import { registerRealtimeListeners } from './utils/realtime';
+import { startPriceRefreshJob } from './jobs/priceRefresh';
+import { startOccasionJob } from './jobs/occasionReminders';
+import { startTrashPurgeJob } from './jobs/trashPurge';
+import { listQueryFrom, findPage } from './utils/pagination';
+import { blockedIdsFor, isBlockedBetween } from './utils/friends';
+import { trySendVerificationEmail } from './utils/emailVerification';
 import User from './models/User';
 import {
   CreateUserRequest,
@@ -21,12 +52,26 @@ const app = express();
 // Middleware
 app.use(cors({
   origin: 'http://localhost:3000',
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['ETag']
 }));
-app.use(express.json());
+app.use(express.json({ limit: '1mb' })); // room for wishlist imports
+
+// Connect to MongoDB and bring documents from older versions up to date
+// (subscribers, jobs and the server itself only start once this is done)
+const ready = connectDB().then(runMigrations);
 
-// Connect to MongoDB
-connectDB();
+ready.then(() => {
+  // Event subscribers
+  registerNotificationListeners();
+  registerActivityListeners();
+  registerRealtimeListeners();
+
+  // Background jobs (never run against documents that still need migrating)
+  startPriceRefreshJob(Number(process.env.PRICE_REFRESH_INTERVAL_MINUTES) || 0);
+  startOccasionJob(Number(process.env.OCCASION_JOB_INTERVAL_MINUTES ?? 60));
+  startTrashPurgeJob(Number(process.env.TRASH_PURGE_INTERVAL_MINUTES ?? 60));
+});
 
 // ==========================================
 // ROUTES
@@ -39,12 +84,23 @@ app.get('/', (req: Request, res: Response) => {
     version: '5.0.0',
     language: 'TypeScript',
     database: 'MongoDB',
-    features: ['Authentication', 'JWT Tokens', 'Private Wishlists', 'Collaborative Wishlists'],
+    features: ['Authentication', 'JWT Tokens', 'Refresh Tokens', 'Private Wishlists', 'Collaborative Wishlists', 'Gift Reservations', 'Item Quantities', 'Group Gifting', 'Item Ordering', 'Share Links', 'Invitations', 'Collaborator Roles', 'Notifications', 'Activity Log', 'Link Previews', 'Price Alerts', 'Multi-Currency', 'Search', 'Occasions & Reminders', 'Friends & Feed', 'Import & Export', 'Cloning & Templates', 'Trash & Restore', 'ETag / If-Match', 'Real-time Updates'],
     endpoints: {
       auth: {
         register: 'POST /api/auth/register',
         login: 'POST /api/auth/login',
-        me: 'GET /api/auth/me (protected)'
+        refresh: 'POST /api/auth/refresh',
+        forgotPassword: 'POST /api/auth/forgot-password',
+        resetPassword: 'POST /api/auth/reset-password',
+        verifyEmail: 'POST /api/auth/verify-email',
+        resendVerification: 'POST /api/auth/resend-verification (protected)',
+        changePassword: 'PUT /api/auth/change-password (protected)',
+        logout: 'POST /api/auth/logout (protected)',
+        me: 'GET /api/auth/me (protected)',
+        preferences: 'PUT /api/auth/preferences (protected)',
+        sessions: 'GET /api/auth/sessions (protected)',
+        revokeSession: 'DELETE /api/auth/sessions/:sessionId (protected)',
+        revokeOtherSessions: 'DELETE /api/auth/sessions (protected)'
       },
       wishlists: {
         create: 'POST /api/wishlists',
@@ -52,11 +108,99 @@ app.get('/', (req: Request, res: Response) => {
         getOne: 'GET /api/wishlists/:id',
         update: 'PUT /api/wishlists/:id',
         delete: 'DELETE /api/wishlists/:id',
+        exportAll: 'GET /api/wishlists/export?format=json|csv',
+        export: 'GET /api/wishlists/:id/export?format=json|csv',
+        import: 'POST /api/wishlists/import',
+        importInto: 'POST /api/wishlists/:id/import',
+        clone: 'POST /api/wishlists/:id/clone',
+        saveAsTemplate: 'POST /api/wishlists/:id/template',
         addItem: 'POST /api/wishlists/:id/items',
         updateItem: 'PUT /api/wishlists/:id/items/:itemId',
         deleteItem: 'DELETE /api/wishlists/:id/items/:itemId',
+        itemTrash: 'GET /api/wishlists/:id/trash',
+        restoreItem: 'POST /api/wishlists/:id/trash/:itemId/restore',
+        purgeItem: 'DELETE /api/wishlists/:id/trash/:itemId',
+        reorderItems: 'PUT /api/wishlists/:id/items/order',
+        moveItem: 'POST /api/wishlists/:id/items/:itemId/move',
+        copyItem: 'POST /api/wishlists/:id/items/:itemId/copy',
+        activity: 'GET /api/wishlists/:id/activity',
+        presence: 'GET /api/wishlists/:id/presence',
+        priceHistory: 'GET /api/wishlists/:id/items/:itemId/price-history',
+        setPriceWatch: 'PUT /api/wishlists/:id/items/:itemId/price-watch',
+        removePriceWatch: 'DELETE /api/wishlists/:id/items/:itemId/price-watch',
+        claimItem: 'POST /api/wishlists/:id/items/:itemId/claim',
+        releaseItem: 'DELETE /api/wishlists/:id/items/:itemId/claim',
+        getGroupGift: 'GET /api/wishlists/:id/items/:itemId/pledges',
+        pledge: 'POST /api/wishlists/:id/items/:itemId/pledges',
+        updatePledge: 'PUT /api/wishlists/:id/items/:itemId/pledges/mine',
+        withdrawPledge: 'DELETE /api/wishlists/:id/items/:itemId/pledges/mine',
+        lockGroupGift: 'POST /api/wishlists/:id/items/:itemId/pledges/lock',
+        unlockGroupGift: 'DELETE /api/wishlists/:id/items/:itemId/pledges/lock',
         invite: 'POST /api/wishlists/:id/invite',
-        removeCollaborator: 'DELETE /api/wishlists/:id/collaborators/:userId'
+        invitations: 'GET /api/wishlists/:id/invitations',
+        cancelInvitation: 'DELETE /api/wishlists/:id/invitations/:inviteId',
+        updateCollaboratorRole: 'PUT /api/wishlists/:id/collaborators/:userId',
+        removeCollaborator: 'DELETE /api/wishlists/:id/collaborators/:userId',
+        share: 'POST /api/wishlists/:id/share',
+        rotateShare: 'POST /api/wishlists/:id/share/rotate',
+        revokeShare: 'DELETE /api/wishlists/:id/share'
+      },
+      realtime: {
+        stream: 'GET /api/realtime?wishlists=id1,id2 (Server-Sent Events; Last-Event-ID resumes)'
+      },
+      shared: {
+        getOne: 'GET /api/shared/:token'
+      },
+      invitations: {
+        getMine: 'GET /api/invitations',
+        accept: 'POST /api/invitations/:token/accept',
+        decline: 'POST /api/invitations/:token/decline'
+      },
+      notifications: {
+        feed: 'GET /api/notifications',
+        markRead: 'POST /api/notifications/:id/read',
+        markAllRead: 'POST /api/notifications/read-all',
+        preferences: 'GET /api/notifications/preferences',
+        updatePreferences: 'PUT /api/notifications/preferences'
+      },
+      unfurl: {
+        preview: 'POST /api/unfurl'
+      },
+      friends: {
+        getFriends: 'GET /api/friends',
+        removeFriend: 'DELETE /api/friends/:userId',
+        getRequests: 'GET /api/friends/requests',
+        sendRequest: 'POST /api/friends/requests',
+        acceptRequest: 'POST /api/friends/requests/:requestId/accept',
+        declineRequest: 'POST /api/friends/requests/:requestId/decline',
+        cancelRequest: 'DELETE /api/friends/requests/:requestId',
+        getBlocked: 'GET /api/friends/blocks',
+        block: 'POST /api/friends/blocks',
+        unblock: 'DELETE /api/friends/blocks/:userId'
+      },
+      trash: {
+        getAll: 'GET /api/trash',
+        restore: 'POST /api/trash/:id/restore',
+        purge: 'DELETE /api/trash/:id'
+      },
+      templates: {
+        getAll: 'GET /api/templates?source=system|user',
+        getOne: 'GET /api/templates/:templateId',
+        delete: 'DELETE /api/templates/:templateId',
+        use: 'POST /api/templates/:templateId/use'
+      },
+      feed: {
+        getFeed: 'GET /api/feed'
+      },
+      occasions: {
+        upcoming: 'GET /api/occasions/upcoming?days=60'
+      },
+      search: {
+        search: 'GET /api/search?q=&type=&minPrice=&maxPrice=&currency=&purchased=&addedBy=&page=&limit='
+      },
+      exchangeRates: {
+        getAll: 'GET /api/exchange-rates',
+        convert: 'GET /api/exchange-rates/convert?amount=&from=&to='
       }
     }
   });
@@ -88,16 +232,47 @@ app.post('/api/echo', (req: Request, res: Response) => {
 // Auth routes
 app.use('/api/auth', authRoutes);
 app.use('/api/wishlists', wishlistRoutes);
+app.use('/api/shared', sharedRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/unfurl', unfurlRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/occasions', occasionRoutes);
+app.use('/api/friends', friendRoutes);
+app.use('/api/feed', feedRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/realtime', realtimeRoutes);
 
 // Get all users
-app.get('/api/users', protect, async (req: Request, res: Response) => {
+// GET /api/users?search=&sort=-createdAt&limit=20&cursor=
+app.get('/api/users', protect, validate({ query: listUsersQuery }), async (req: AuthRequest, res: Response) => {
   try {
-    const users = await User.find().select('-__v'); // Exclude __v field
+    const listQuery = listQueryFrom(req.query as ListUsersQuery, USER_LIST_OPTIONS);
+
+    // Only people who haven't blocked me (or been blocked by me)
+    const filter: Record<string, any> = {
+      _id: { $nin: await blockedIdsFor(req.user!._id) },
+    };
+
+    // Username prefix search
+    const { search } = req.query as ListUsersQuery;
+
+    if (search) {
+      const prefix = search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      filter.username = { $regex: `^${prefix}`, $options: 'i' };
+    }
+
+    const { docs: users, pageInfo } = await findPage(User, filter, listQuery, (query) =>
+      query.select('username createdAt') // Public profile only
+    );
     
     const response: UsersResponse = {
       success: true,
       count: users.length,
-      users: users
+      users: users,
+      pagination: pageInfo
     };
     res.json(response);
   } catch (error) {
@@ -109,12 +284,13 @@ app.get('/api/users', protect, async (req: Request, res: Response) => {
   }
 });
 
-// Get single user
-app.get('/api/users/:id', protect, async (req: Request<{ id: string }>, res: Response) => {
+// Get single user (public profile only, like the list)
+app.get('/api/users/:id', protect, validate({ params: idParams }), async (req: AuthRequest, res: Response) => {
   try {
-    const user = await User.findById(req.params.id).select('-__v');
+    const user = await User.findById(req.params.id).select('username createdAt');
     
-    if (!user) {
+    // Blocks look the same as a missing user
+    if (!user || (await isBlockedBetween(req.user!._id, String(req.params.id)))) {
       const errorResponse: ErrorResponse = {
         success: false,
         message: `User with ID ${req.params.id} not found`
@@ -137,20 +313,10 @@ app.get('/api/users/:id', protect, async (req: Request<{ id: string }>, res: Res
 });
 
 // Create user
-app.post('/api/users', protect, async (req: Request<{}, {}, CreateUserRequest>, res: Response) => {
+app.post('/api/users', protect, validate({ body: createUserBody }), async (req: Request<{}, {}, CreateUserRequest>, res: Response) => {
   try {
     const { username, email, age } = req.body;
     
-    // Basic validation (Mongoose will do more)
-    if (!username || !email) {
-      const errorResponse: ErrorResponse = {
-        success: false,
-        message: 'Missing required fields',
-        required: ['username', 'email']
-      };
-      return res.status(400).json(errorResponse);
-    }
-    
     // Check if username already exists
     const existingUser = await User.findOne({ username });
     if (existingUser) {
@@ -165,7 +331,7 @@ app.post('/api/users', protect, async (req: Request<{}, {}, CreateUserRequest>,
     const newUser = new User({
       username,
       email,
-      age: age || null
+      age: age ?? null
     });
     
     await newUser.save();
@@ -203,10 +369,18 @@ app.post('/api/users', protect, async (req: Request<{}, {}, CreateUserRequest>,
   }
 });
 
-// Update user
-app.put('/api/users/:id', protect, async (req: Request<{ id: string }, {}, UpdateUserRequest>, res: Response) => {
+// Update user (your own account only)
+app.put('/api/users/:id', protect, validate({ params: idParams, body: updateUserBody }), async (req: AuthRequest, res: Response) => {
   try {
-    const { username, email, age } = req.body;
+    const { username, email, age, currentPassword } = req.body as UpdateUserRequest;
+
+    if (req.user!._id !== req.params.id) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: 'You can only update your own account'
+      };
+      return res.status(403).json(errorResponse);
+    }
     
     // Check if user exists
     const user = await User.findById(req.params.id);
@@ -230,16 +404,40 @@ app.put('/api/users/:id', protect, async (req: Request<{ id: string }, {}, Updat
       }
     }
     
+    // A new email takes over password resets, so it needs the current password
+    const emailChanged = !!email && email.toLowerCase() !== user.email.toLowerCase();
+    if (emailChanged) {
+      const withPassword = await User.findById(user._id).select('+password');
+      const isPasswordValid = !!currentPassword && await withPassword!.comparePassword(currentPassword);
+      if (!isPasswordValid) {
+        const errorResponse: ErrorResponse = {
+          success: false,
+          message: currentPassword
+            ? 'Current password is incorrect'
+            : 'Current password is required to change your email'
+        };
+        return res.status(currentPassword ? 401 : 400).json(errorResponse);
+      }
+    }
+    
     // Update fields
     if (username) user.username = username;
-    if (email) user.email = email;
+    if (emailChanged) {
+      user.email = email;
+      user.emailVerified = false; // New address must be verified again
+    }
     if (age !== undefined) user.age = age;
     
     await user.save();
+
+    // Send the new address its link (the update stands even if the mail fails)
+    const verificationEmailSent = emailChanged ? await trySendVerificationEmail(user) : undefined;
     
     const response: UserResponse = {
       success: true,
-      message: 'User updated successfully!',
+      message: verificationEmailSent === false
+        ? 'User updated, but the verification email could not be sent'
+        : 'User updated successfully!',
       user: user
     };
     res.json(response);
@@ -261,9 +459,17 @@ app.put('/api/users/:id', protect, async (req: Request<{ id: string }, {}, Updat
   }
 });
 
-// Delete user
-app.delete('/api/users/:id', protect, async (req: Request<{ id: string }>, res: Response) => {
+// Delete user (your own account only)
+app.delete('/api/users/:id', protect, validate({ params: idParams }), async (req: AuthRequest, res: Response) => {
   try {
+    if (req.user!._id !== req.params.id) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        message: 'You can only delete your own account'
+      };
+      return res.status(403).json(errorResponse);
+    }
+
     const user = await User.findByIdAndDelete(req.params.id);
     
     if (!user) {
@@ -298,10 +504,12 @@ app.use((req: Request, res: Response) => {
   res.status(404).json(errorResponse);
 });
 
-// Start server
+// Start server (no request may see a document that still needs migrating)
 const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on http://localhost:${PORT}`);
-  console.log(`💎 Running with TypeScript!`);
-  console.log(`🗄️  Connected to MongoDB!`);
+ready.then(() => {
+  app.listen(PORT, () => {
+    console.log(`🚀 Server running on http://localhost:${PORT}`);
+    console.log(`💎 Running with TypeScript!`);
+    console.log(`🗄️  Connected to MongoDB!`);
+  });
 });
\ No newline at end of file
@@ -1,4 +1,7 @@
 // Type definitions for our API
+import { PageInfo } from './utils/pagination';
+import { FieldError, Infer } from './utils/validation';
+import { createUserBody, updateUserBody } from './schemas/users';
 
 declare global {
   namespace NodeJS {
@@ -8,22 +11,40 @@ declare global {
       MONGODB_URI: string;
       JWT_SECRET: string;
       JWT_EXPIRES_IN: string;
+      REFRESH_TOKEN_EXPIRES_DAYS?: string;
+      RESET_TOKEN_EXPIRES_MINUTES?: string;
+      VERIFY_TOKEN_EXPIRES_HOURS?: string;
+      UNVERIFIED_ALLOWED_ACTIONS?: string;
+      UNFURL_TIMEOUT_MS?: string;
+      UNFURL_MAX_BYTES?: string;
+      UNFURL_CACHE_TTL_MINUTES?: string;
+      PRICE_DROP_PERCENT?: string;
+      PRICE_REFRESH_INTERVAL_MINUTES?: string;
+      DEFAULT_CURRENCY?: string;
+      EXCHANGE_RATES_FILE?: string;
+      OCCASION_JOB_INTERVAL_MINUTES?: string;
+      OCCASION_ARCHIVE_AFTER_DAYS?: string;
+      TRASH_RETENTION_DAYS?: string;
+      TRASH_PURGE_INTERVAL_MINUTES?: string;
+      APP_URL?: string;
+      MAIL_DRIVER?: 'smtp' | 'file' | 'console';
+      MAIL_FROM?: string;
+      MAIL_FILE_PATH?: string;
+      SMTP_HOST?: string;
+      SMTP_PORT?: string;
+      SMTP_SECURE?: string;
+      SMTP_USER?: string;
+      SMTP_PASS?: string;
+      INVITE_EXPIRES_DAYS?: string;
     }
   }
 }
 
 export {};
-export interface CreateUserRequest {
-  username: string;
-  email: string;
-  age?: number;
-}
+// Request bodies are derived from their schemas (src/schemas), so the two can't drift
+export type CreateUserRequest = Infer<typeof createUserBody>;
 
-export interface UpdateUserRequest {
-  username?: string;
-  email?: string;
-  age?: number;
-}
+export type UpdateUserRequest = Infer<typeof updateUserBody>;
 
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -35,6 +56,7 @@ export interface UsersResponse {
   success: boolean;
   count: number;
   users: any[]; // Will be IUser[] from Mongoose
+  pagination: PageInfo;
 }
 
 export interface UserResponse {
@@ -46,5 +68,5 @@ export interface UserResponse {
 export interface ErrorResponse {
   success: false;
   message: string;
-  required?: string[];
+  errors?: FieldError[]; // one per invalid field, from the validate middleware
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import Activity from '../models/Activity';
+import { FieldChange, WishlistEvent, WishlistEventType, onWishlistEvent } from './events';
+import { SURPRISE_FIELDS } from './wishlistView';
+
+// Fields tracked in the activity log. isPurchased isn't one: it's worked out from
+// the fulfilments now, so updateItem logs a giver marking their units bought itself.
+export const WISHLIST_FIELDS = ['name', 'description', 'type', 'visibility', 'archivedAt'];
+export const ITEM_FIELDS = ['name', 'description', 'price', 'currency', 'quantity', 'priority', 'url'];
+
+// About one user's own price watch - never part of the shared log
+export const PERSONAL_ACTIVITY: WishlistEventType[] = ['item.priceDropped'];
+
+/**
+ * Compare two snapshots and list the fields that changed
+ */
+export const diffFields = (
+  before: Record<string, any>,
+  after: Record<string, any>,
+  fields: string[]
+): FieldChange[] => {
+  return fields
+    .filter((field) => String(before[field]) !== String(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+};
+
+/**
+ * Pick some fields of a document into a plain snapshot
+ */
+export const snapshot = (doc: any, fields: string[]): Record<string, any> => {
+  const copy: Record<string, any> = {};
+
+  fields.forEach((field) => {
+    copy[field] = doc[field];
+  });
+
+  return copy;
+};
+
+/**
+ * Append an event to the wishlist's activity log
+ */
+export const recordActivity = async (event: WishlistEvent): Promise<void> => {
+  if (PERSONAL_ACTIVITY.includes(event.type)) return;
+
+  await Activity.create({
+    wishlist: event.wishlist._id,
+    actor: event.actor._id,
+    action: event.type,
+    item: event.item?._id || null,
+    itemName: event.item?.name || '',
+    targetUser: event.targetUserId || null,
+    changes: event.changes || [],
+    surprise: !!event.surprise,
+  });
+};
+
+/**
+ * Remove anything that would spoil a surprise from an entry (owner view)
+ */
+export const redactActivity = (activity: any): any => {
+  const plain = typeof activity?.toObject === 'function' ? activity.toObject() : { ...activity };
+
+  plain.changes = plain.changes.filter(
+    (change: FieldChange) => !SURPRISE_FIELDS.includes(change.field)
+  );
+
+  return plain;
+};
+
+/**
+ * Hook the activity log up to the wishlist event bus
+ */
+export const registerActivityListeners = (): void => {
+  onWishlistEvent(recordActivity);
+};
@@ -0,0 +1,100 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing (quoted fields, "" escapes, CRLF)
+ */
+
+// Spreadsheets run cells starting with these as formulas. Text that already
+// starts with quotes before one is defused too, so restoreCell can always drop exactly one.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+/**
+ * Quote a cell when needed; text that looks like a formula is defused
+ */
+const formatCell = (value: any): string => {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Undo the quote toCsv put in front of formula-like text.
+ * Only for files toCsv wrote - anywhere else the quote is the user's own.
+ */
+export const restoreCell = (text: string): string => {
+  return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+};
+
+/**
+ * Write a header row and data rows as CSV text
+ */
+export const toCsv = (headers: string[], rows: any[][]): string => {
+  return [headers, ...rows].map((row) => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Read CSV text into rows of cells. Blank lines are skipped.
+ * Throws on an unterminated quoted field.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, ''); // Excel's byte order mark
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+
+      if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+
+      i++;
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+
+    i++;
+  }
+
+  if (quoted) {
+    throw new Error('CSV has an unterminated quoted field');
+  }
+
+  if (cell !== '' || row.length) endRow();
+
+  return rows;
+};
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import defaultRates from '../config/exchangeRates.json';
+import { isValidCurrency } from '../config/currencies';
+
+/**
+ * Exchange rates: how many units of each currency one unit of `base` buys
+ */
+export interface ExchangeRateTable {
+  base: string;
+  updatedAt: string;
+  rates: Record<string, number>;
+}
+
+/**
+ * Check a rate table, returning a list of problems (empty = valid)
+ */
+export const validateRateTable = (table: any): string[] => {
+  const errors: string[] = [];
+
+  if (!table || typeof table !== 'object') return ['Rate table must be an object'];
+  if (!isValidCurrency(table.base)) errors.push(`Invalid base currency: ${table.base}`);
+  if (!table.rates || typeof table.rates !== 'object') {
+    errors.push('rates must be an object of currency code to number');
+    return errors;
+  }
+
+  Object.entries(table.rates).forEach(([code, rate]) => {
+    if (!isValidCurrency(code)) errors.push(`Invalid currency code: ${code}`);
+    if (typeof rate !== 'number' || !(rate > 0)) errors.push(`Invalid rate for ${code}`);
+  });
+
+  if (table.rates[table.base] !== 1) errors.push('The base currency must have a rate of 1');
+
+  return errors;
+};
+
+/**
+ * Read and validate a rate table from a JSON file
+ */
+export const readRateTable = (filePath: string): ExchangeRateTable => {
+  const table = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const errors = validateRateTable(table);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid exchange rate file ${filePath}: ${errors.join('; ')}`);
+  }
+
+  return {
+    base: table.base,
+    updatedAt: table.updatedAt || new Date().toISOString(),
+    rates: table.rates,
+  };
+};
+
+/**
+ * Rates to start with: the table EXCHANGE_RATES_FILE points at, or the bundled one.
+ * A bad file falls back to the bundled rates rather than stopping the server.
+ */
+const loadStartupRates = (): ExchangeRateTable => {
+  const filePath = process.env.EXCHANGE_RATES_FILE;
+
+  if (!filePath) return defaultRates as ExchangeRateTable;
+
+  try {
+    return readRateTable(filePath);
+  } catch (error: any) {
+    console.error(
+      `❌ Could not load exchange rates from ${filePath} (${error.message}) - using the bundled rates`
+    );
+    return defaultRates as ExchangeRateTable;
+  }
+};
+
+// Read once: the import script writes the file, the server picks it up on restart
+const rateTable: ExchangeRateTable = loadStartupRates();
+
+/**
+ * Get the rate table in use
+ */
+export const getExchangeRates = (): ExchangeRateTable => rateTable;
+
+/**
+ * Convert an amount between currencies (null if a rate is missing)
+ */
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string
+): number | null => {
+  if (from === to) return amount;
+
+  // Own keys only, so a code like "constructor" can't find Object.prototype's
+  const hasRate = (code: string) => Object.prototype.hasOwnProperty.call(rateTable.rates, code);
+
+  if (!hasRate(from) || !hasRate(to)) return null;
+
+  const fromRate = rateTable.rates[from];
+  const toRate = rateTable.rates[to];
+
+  return Math.round((amount / fromRate) * toRate * 100) / 100;
+};
+
+/**
+ * Add a converted display price to each item and a total to the wishlist view
+ */
+export const withPriceTotals = (view: any, currency: string): any => {
+  let total = 0;
+  const unconverted = new Set<string>();
+
+  view.items = view.items.map((item: any) => {
+    if (item.price === null || item.price === undefined) {
+      return { ...item, displayPrice: null };
+    }
+
+    const amount = convertAmount(item.price, item.currency, currency);
+
+    if (amount === null) {
+      unconverted.add(item.currency);
+      return { ...item, displayPrice: null };
+    }
+
+    total += amount;
+    return { ...item, displayPrice: { amount, currency } };
+  });
+
+  view.totals = {
+    currency,
+    total: Math.round(total * 100) / 100,
+    unconvertedCurrencies: [...unconverted], // no rate - left out of the total
+  };
+
+  return view;
+};
@@ -0,0 +1,43 @@
+import { IUser } from '../models/User';
+import { randomToken, hashToken } from './tokens';
+import { sendMail } from './mailer';
+
+// Verification links are valid for 48 hours unless configured otherwise
+const VERIFY_TOKEN_EXPIRES_HOURS = Number(process.env.VERIFY_TOKEN_EXPIRES_HOURS) || 48;
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+/**
+ * Issue a fresh verification token and email it to the user
+ */
+export const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  const verificationToken = randomToken(32);
+
+  user.emailVerificationTokenHash = hashToken(verificationToken);
+  user.emailVerificationExpiresAt = new Date(
+    Date.now() + VERIFY_TOKEN_EXPIRES_HOURS * 60 * 60 * 1000
+  );
+  await user.save();
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your Wishlist email',
+    text:
+      `Hi ${user.username},\n\n` +
+      `Confirm your email here (valid for ${VERIFY_TOKEN_EXPIRES_HOURS} hours):\n` +
+      `${APP_URL}/verify-email?token=${verificationToken}`,
+  });
+};
+
+/**
+ * Send the verification email without failing the request that triggered it.
+ * Returns whether it went out (the user can ask for another either way).
+ */
+export const trySendVerificationEmail = async (user: IUser): Promise<boolean> => {
+  try {
+    await sendVerificationEmail(user);
+    return true;
+  } catch (error) {
+    console.error('Error sending verification email:', error);
+    return false;
+  }
+};
@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+
+/**
+ * ETag of a wishlist: changes whenever its settings, members or set of items change
+ */
+export const wishlistETag = (wishlist: { _id: any; version?: number }): string => {
+  return `"${wishlist._id}.${wishlist.version ?? 0}"`;
+};
+
+/**
+ * ETag of an item: changes whenever its details change (never for claims or pledges)
+ */
+export const itemETag = (item: { _id?: any; version?: number }): string => {
+  return `"${item._id}.${item.version ?? 0}"`;
+};
+
+/**
+ * Does the request's If-Match allow changing something with this ETag?
+ * No header = yes. Weak tags never match (If-Match uses strong comparison).
+ */
+export const ifMatchAllows = (req: Request, etag: string): boolean => {
+  const header = req.headers['if-match'];
+
+  if (!header) return true;
+
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || tag === etag);
+};
+
+/**
+ * Did the request make its change conditional with If-Match?
+ */
+export const hasIfMatch = (req: Request): boolean => !!req.headers['if-match'];
+
+/**
+ * A save made conditional on the version it was loaded at found nothing to update
+ */
+export const isStaleSave = (error: any): boolean => error?.name === 'DocumentNotFoundError';
+
+/**
+ * 412 for an If-Match that no longer matches
+ */
+export const preconditionFailed = (res: Response, what: 'wishlist' | 'item'): void => {
+  res.status(412).json({
+    success: false,
+    message: `This ${what} has changed since you loaded it. Reload it and try again.`,
+  });
+};
@@ -0,0 +1,107 @@
+import { EventEmitter } from 'events';
+import { IWishlist } from '../models/Wishlist';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * Everything that can happen on a wishlist
+ */
+export const WISHLIST_EVENT_TYPES = [
+  'wishlist.created',
+  'wishlist.updated',
+  'wishlist.deleted',
+  'wishlist.restored',
+  'wishlist.archived',
+  'wishlist.imported',
+  'wishlist.occasionReminder',
+  'item.added',
+  'item.updated',
+  'item.deleted',
+  'item.restored',
+  'item.moved',
+  'item.claimed',
+  'item.released',
+  'item.pledged',
+  'item.pledgeUpdated',
+  'item.pledgeWithdrawn',
+  'item.funded',
+  'item.poolLocked',
+  'item.poolUnlocked',
+  'item.priceDropped',
+  'member.invited',
+  'member.joined',
+  'member.removed',
+  'member.roleChanged',
+] as const;
+
+export type WishlistEventType = (typeof WISHLIST_EVENT_TYPES)[number];
+
+/**
+ * One changed field (before/after)
+ */
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+/**
+ * Payload of a wishlist event
+ */
+export interface WishlistEvent {
+  type: WishlistEventType;
+  wishlist: IWishlist;
+  actor: EventActor;
+  item?: { _id: string; name: string };
+  targetUserId?: string; // who was invited / removed / re-roled / alerted
+  changes?: FieldChange[];
+  surprise?: boolean; // about claims or purchases - never tell the owner
+}
+
+/**
+ * Who is acting - a user id and the name to show (null id = the app itself)
+ */
+export interface EventActor {
+  _id: string | null;
+  username: string;
+}
+
+/**
+ * Actor for background jobs
+ */
+export const SYSTEM_ACTOR: EventActor = { _id: null, username: 'Wishlist' };
+
+/**
+ * The logged-in user as an event actor
+ */
+export const actorFrom = (req: AuthRequest): EventActor => ({
+  _id: req.user!._id,
+  username: req.user!.username,
+});
+
+/**
+ * In-process event bus for wishlist activity
+ * Controllers emit, subscribers (notifications, ...) listen.
+ */
+export const wishlistEvents = new EventEmitter();
+
+/**
+ * Emit a wishlist event
+ */
+export const emitWishlistEvent = (event: WishlistEvent): void => {
+  wishlistEvents.emit('wishlist', event);
+};
+
+/**
+ * Subscribe to wishlist events; errors are logged, never thrown at the emitter
+ */
+export const onWishlistEvent = (
+  listener: (event: WishlistEvent) => Promise<void> | void
+): void => {
+  wishlistEvents.on('wishlist', async (event: WishlistEvent) => {
+    try {
+      await listener(event);
+    } catch (error) {
+      console.error(`Error handling wishlist event ${event.type}:`, error);
+    }
+  });
+};
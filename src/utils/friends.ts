@@ -0,0 +1,83 @@
+import Friendship, { friendshipPair } from '../models/Friendship';
+import Block from '../models/Block';
+import { IWishlist } from '../models/Wishlist';
+import { refId } from './wishlistView';
+
+/**
+ * Find the friendship document between two users (either direction)
+ */
+export const findFriendship = (userA: string, userB: string) => {
+  return Friendship.findOne({ pair: friendshipPair(userA, userB) });
+};
+
+/**
+ * Check if two users are friends
+ */
+export const areFriends = async (userA: string, userB: string): Promise<boolean> => {
+  const friendship = await findFriendship(userA, userB);
+  return friendship?.status === 'accepted';
+};
+
+/**
+ * IDs of everyone a user is friends with
+ */
+export const friendIdsOf = async (userId: string): Promise<string[]> => {
+  const friendships = await Friendship.find({
+    status: 'accepted',
+    $or: [{ requester: userId }, { recipient: userId }],
+  }).select('requester recipient');
+
+  return friendships.map((f) =>
+    f.requester.toString() === userId ? f.recipient.toString() : f.requester.toString()
+  );
+};
+
+/**
+ * Check if either user has blocked the other
+ */
+export const isBlockedBetween = async (userA: string, userB: string): Promise<boolean> => {
+  const block = await Block.exists({
+    $or: [
+      { blocker: userA, blocked: userB },
+      { blocker: userB, blocked: userA },
+    ],
+  });
+
+  return !!block;
+};
+
+/**
+ * IDs of users who blocked this user or were blocked by them
+ */
+export const blockedIdsFor = async (userId: string): Promise<string[]> => {
+  const blocks = await Block.find({
+    $or: [{ blocker: userId }, { blocked: userId }],
+  }).select('blocker blocked');
+
+  return blocks.map((b) =>
+    b.blocker.toString() === userId ? b.blocked.toString() : b.blocker.toString()
+  );
+};
+
+/**
+ * Can someone who isn't a member read a wishlist?
+ * Public lists: anyone the owner hasn't blocked. Friends lists: the owner's friends.
+ */
+export const canViewAsOutsider = async (
+  wishlist: IWishlist,
+  userId?: string
+): Promise<boolean> => {
+  if (!userId) return false;
+
+  const ownerId = refId(wishlist.owner);
+
+  if (wishlist.visibility === 'public') {
+    return !(await isBlockedBetween(ownerId, userId));
+  }
+
+  if (wishlist.visibility === 'friends') {
+    return areFriends(ownerId, userId); // blocking ends the friendship
+  }
+
+  return false;
+};
@@ -0,0 +1,21 @@
+import { IItem } from '../models/Wishlist';
+
+// Pool totals are money; allow for floating point noise
+export const POOL_EPSILON = 0.001;
+
+/**
+ * Whether pledges cover the item's price
+ */
+export const isPoolFunded = (item: Pick<IItem, 'price' | 'groupGift'>): boolean => {
+  const { total } = item.groupGift;
+
+  return item.price !== null && total > 0 && total + POOL_EPSILON >= item.price;
+};
+
+/**
+ * When the pool counts as funded after its price or pledges changed:
+ * kept if pledges still cover it, now if they just started to, null if they no longer do
+ */
+export const recheckFundedAt = (item: Pick<IItem, 'price' | 'groupGift'>): Date | null => {
+  return isPoolFunded(item) ? item.groupGift.fundedAt ?? new Date() : null;
+};
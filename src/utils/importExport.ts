@@ -0,0 +1,342 @@
+import mongoose from 'mongoose';
+import Wishlist, { IItem, NewItem } from '../models/Wishlist';
+import { toCsv, parseCsv, restoreCell } from './csv';
+
+// Rows accepted in a single import
+export const MAX_IMPORT_ROWS = 500;
+
+// Bumped when the JSON export layout changes
+export const EXPORT_VERSION = 1;
+
+/**
+ * CSV columns, one row per item
+ */
+export const ITEM_COLUMNS = [
+  'name',
+  'description',
+  'price',
+  'currency',
+  'quantity',
+  'priority',
+  'url',
+  'imageUrl',
+  'position',
+  'createdAt',
+];
+
+// What an import reads; positions, timestamps and reservations are set on import
+const IMPORT_FIELDS = [
+  'name',
+  'description',
+  'price',
+  'currency',
+  'quantity',
+  'priority',
+  'url',
+  'imageUrl',
+];
+
+// JSON keeps link previews too
+const JSON_IMPORT_FIELDS = [...IMPORT_FIELDS, 'metadata'];
+
+const NUMBER_FIELDS = ['price', 'quantity'];
+
+/**
+ * One problem with one field of an imported row
+ */
+export interface RowError {
+  field: string;
+  message: string;
+}
+
+/**
+ * A row read from an import file (row numbers match what the user sees)
+ */
+export interface ImportRow {
+  row: number;
+  fields: Record<string, any>;
+}
+
+/**
+ * Outcome of checking rows against a wishlist, before anything is saved
+ */
+export interface ImportPlan {
+  items: Record<string, any>[];
+  errors: { row: number; errors: RowError[] }[];
+  duplicates: { row: number; name: string; matchedOn: 'url' | 'name' }[];
+}
+
+const pick = (source: any, fields: string[]): Record<string, any> => {
+  if (!source || typeof source !== 'object') return {};
+
+  return Object.fromEntries(
+    fields.filter((field) => source[field] !== undefined).map((field) => [field, source[field]])
+  );
+};
+
+// ==========================================
+// EXPORT
+// ==========================================
+
+/**
+ * Items of one or more wishlist views as CSV (with a wishlist column for several lists)
+ */
+export const itemsToCsv = (views: any[], withWishlist = false): string => {
+  const headers = withWishlist ? ['wishlist', ...ITEM_COLUMNS] : ITEM_COLUMNS;
+
+  const rows = views.flatMap((view) =>
+    view.items.map((item: any) => {
+      const cells = ITEM_COLUMNS.map((column) =>
+        column === 'quantity' && item.quantity === null ? 'any' : item[column]
+      );
+
+      return withWishlist ? [view.name, ...cells] : cells;
+    })
+  );
+
+  return toCsv(headers, rows);
+};
+
+/**
+ * File name for a download, e.g. "birthday-2025.csv"
+ */
+export const exportFileName = (name: string, format: 'json' | 'csv'): string => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+  return `${slug || 'wishlist'}.${format}`;
+};
+
+// ==========================================
+// IMPORT - READING FILES
+// ==========================================
+
+// Headers are matched loosely: "Image URL", "image_url" and "imageUrl" are the same
+const columnKey = (header: string): string => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const COLUMNS_BY_KEY: Record<string, string> = Object.fromEntries(
+  IMPORT_FIELDS.map((field) => [columnKey(field), field])
+);
+
+/**
+ * Read item rows from CSV text (the header row names the columns)
+ */
+export const rowsFromCsv = (
+  text: string
+): { rows?: ImportRow[]; ignoredColumns?: string[]; error?: string } => {
+  let table: string[][];
+
+  try {
+    table = parseCsv(text);
+  } catch (error: any) {
+    return { error: error.message };
+  }
+
+  const [headers, ...data] = table;
+
+  if (!headers) {
+    return { error: 'The CSV is empty' };
+  }
+
+  const columns = headers.map((header) => COLUMNS_BY_KEY[columnKey(header)] || null);
+
+  // Our own exports defuse formula-like text; files from elsewhere are read as they are
+  const exported = [ITEM_COLUMNS, ['wishlist', ...ITEM_COLUMNS]].some(
+    (layout) => layout.join(',') === headers.join(',')
+  );
+
+  if (!columns.includes('name')) {
+    return { error: 'The CSV needs a name column' };
+  }
+
+  return {
+    rows: data.map((cells, index) => ({
+      row: index + 2, // the header is row 1
+      fields: Object.fromEntries(
+        columns.flatMap((field, i) =>
+          field ? [[field, exported ? restoreCell(cells[i] ?? '') : cells[i] ?? '']] : []
+        )
+      ),
+    })),
+    ignoredColumns: headers.filter((_, i) => !columns[i]),
+  };
+};
+
+/**
+ * Read item rows from JSON: one of our exports, a wishlist with items, or a bare array of items.
+ * Also returns the list's own details so a new wishlist can reuse them.
+ */
+export const rowsFromJson = (
+  data: any
+): { rows?: ImportRow[]; wishlist?: Record<string, any>; error?: string } => {
+  let parsed = data;
+
+  if (typeof data === 'string') {
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return { error: 'data is not valid JSON' };
+    }
+  }
+
+  let source = parsed;
+
+  if (Array.isArray(parsed?.wishlists)) {
+    if (parsed.wishlists.length !== 1) {
+      return { error: 'Please import one wishlist at a time' };
+    }
+
+    source = parsed.wishlists[0];
+  } else if (parsed?.wishlist) {
+    source = parsed.wishlist;
+  }
+
+  const items = Array.isArray(source) ? source : source?.items;
+
+  if (!Array.isArray(items)) {
+    return { error: 'JSON must be a list of items or a wishlist with items' };
+  }
+
+  return {
+    rows: items.map((item: any, index: number) => ({
+      row: index + 1,
+      fields: pick(item, JSON_IMPORT_FIELDS),
+    })),
+    wishlist: Array.isArray(source)
+      ? {}
+      : pick(source, ['name', 'description', 'type', 'visibility']),
+  };
+};
+
+// ==========================================
+// IMPORT - CHECKING ROWS
+// ==========================================
+
+/**
+ * Turn a row into item fields and check them against the item schema.
+ * Blank cells mean "use the default"; quantity "any" means any number.
+ */
+export const checkRow = (
+  fields: Record<string, any>,
+  defaultCurrency: string
+): { item?: Record<string, any>; errors: RowError[] } => {
+  const errors: RowError[] = [];
+  const values: Record<string, any> = {};
+
+  Object.entries(fields).forEach(([field, raw]) => {
+    const value = typeof raw === 'string' ? raw.trim() : raw;
+
+    if (value === '' || value === undefined) return;
+
+    if (field === 'quantity' && (value === null || String(value).toLowerCase() === 'any')) {
+      values.quantity = null;
+      return;
+    }
+
+    if (NUMBER_FIELDS.includes(field) && value !== null) {
+      const number = typeof value === 'string' ? Number(value) : value;
+
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        errors.push({ field, message: `${field} must be a number` });
+        return;
+      }
+
+      values[field] = number;
+      return;
+    }
+
+    values[field] = field === 'priority' && typeof value === 'string' ? value.toLowerCase() : value;
+  });
+
+  values.currency = values.currency ?? defaultCurrency;
+
+  // Run the item schema's own rules (required, lengths, enums, minimums)
+  const probe = new Wishlist({
+    name: 'import',
+    owner: new mongoose.Types.ObjectId(),
+    items: [{ ...values, addedBy: new mongoose.Types.ObjectId() }],
+  });
+
+  Object.entries(probe.validateSync()?.errors || {}).forEach(([path, error]) => {
+    const field = path.match(/^items\.0\.([^.]+)/)?.[1];
+
+    if (field && !errors.some((e) => e.field === field)) {
+      errors.push({ field, message: error.message });
+    }
+  });
+
+  if (errors.length || !probe.items[0]) {
+    return { errors: errors.length ? errors : [{ field: 'item', message: 'Invalid item' }] };
+  }
+
+  // Values as the schema stores them (trimmed, upper-cased currency, defaults)
+  return { item: pick(probe.items[0].toObject(), JSON_IMPORT_FIELDS), errors };
+};
+
+const urlKey = (url: string): string =>
+  url.trim().toLowerCase().replace(/#.*$/, '').replace(/\/+$/, '');
+
+const nameKey = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Check every row and sort out duplicates - of items already on the list
+ * or of earlier rows - by URL first, then by name (case-insensitive)
+ */
+export const planImport = (
+  rows: ImportRow[],
+  existing: Pick<IItem, 'name' | 'url'>[],
+  options: { defaultCurrency: string; skipDuplicates: boolean }
+): ImportPlan => {
+  const plan: ImportPlan = { items: [], errors: [], duplicates: [] };
+  const urls = new Set(existing.filter((item) => item.url).map((item) => urlKey(item.url)));
+  const names = new Set(existing.map((item) => nameKey(item.name)));
+
+  rows.forEach(({ row, fields }) => {
+    const { item, errors } = checkRow(fields, options.defaultCurrency);
+
+    if (!item) {
+      plan.errors.push({ row, errors });
+      return;
+    }
+
+    const matchedOn =
+      item.url && urls.has(urlKey(item.url)) ? 'url' : names.has(nameKey(item.name)) ? 'name' : null;
+
+    if (matchedOn && options.skipDuplicates) {
+      plan.duplicates.push({ row, name: item.name, matchedOn });
+      return;
+    }
+
+    if (item.url) urls.add(urlKey(item.url));
+    names.add(nameKey(item.name));
+    plan.items.push(item);
+  });
+
+  return plan;
+};
+
+/**
+ * A fresh item from checked import fields (no history, claims or pledges)
+ */
+export const importedItem = (
+  fields: Record<string, any>,
+  userId: string,
+  position: number
+): NewItem => ({
+  name: fields.name,
+  description: fields.description,
+  price: fields.price,
+  currency: fields.currency,
+  url: fields.url,
+  imageUrl: fields.imageUrl,
+  metadata: fields.metadata ?? null,
+  priceHistory: [],
+  priceWatches: [],
+  position,
+  quantity: fields.quantity,
+  priority: fields.priority,
+  fulfilments: [],
+  fulfilledQuantity: 0,
+  addedBy: new mongoose.Types.ObjectId(userId),
+  version: 0,
+  createdAt: new Date(),
+});
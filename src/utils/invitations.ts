@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import Invitation, { IInvitation } from '../models/Invitation';
+import Wishlist, { IWishlist } from '../models/Wishlist';
+import { EventActor, emitWishlistEvent } from './events';
+import { hashToken } from './tokens';
+import { sendMail } from './mailer';
+
+// Invitations expire after 14 days unless configured otherwise
+const INVITE_EXPIRES_DAYS = Number(process.env.INVITE_EXPIRES_DAYS) || 14;
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+/**
+ * Expiry date for an invitation sent now
+ */
+export const inviteExpiryDate = (): Date => {
+  return new Date(Date.now() + INVITE_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Check if an invitation is past its expiry date
+ */
+export const isInviteExpired = (invitation: IInvitation): boolean => {
+  return invitation.expiresAt.getTime() <= Date.now();
+};
+
+/**
+ * Find an invitation by the token from its email link, or by its id
+ * (how invitees answer from their own list - the token is only ever mailed)
+ */
+export const findInvitation = (key: string) => {
+  const byToken = { token: hashToken(key) };
+
+  return Invitation.findOne(
+    mongoose.isValidObjectId(key) ? { $or: [{ _id: key }, byToken] } : byToken
+  );
+};
+
+/**
+ * Email the invitee a link to answer the invitation
+ */
+export const sendInvitationEmail = async (
+  invitation: IInvitation,
+  token: string,
+  inviter: string,
+  wishlistName: string
+): Promise<void> => {
+  await sendMail({
+    to: invitation.email,
+    subject: `${inviter} invited you to ${wishlistName}`,
+    text:
+      `${inviter} invited you to collaborate on "${wishlistName}" as ${invitation.role}.\n\n` +
+      `Accept or decline here (valid for ${INVITE_EXPIRES_DAYS} days):\n` +
+      `${APP_URL}/invitations/${token}`,
+  });
+};
+
+/**
+ * Add the user to the invited wishlist and mark the invitation accepted.
+ * Returns null (and cancels the invite) if the wishlist no longer exists.
+ */
+export const joinFromInvitation = async (
+  invitation: IInvitation,
+  user: EventActor
+): Promise<IWishlist | null> => {
+  // Push only if not already a member, so roles never get duplicated
+  const result = await Wishlist.updateOne(
+    { _id: invitation.wishlist, 'collaborators.user': { $ne: user._id } },
+    { $push: { collaborators: { user: user._id, role: invitation.role } } }
+  );
+
+  const wishlist = await Wishlist.findById(invitation.wishlist);
+
+  invitation.status = wishlist ? 'accepted' : 'cancelled';
+  invitation.respondedAt = new Date();
+  await invitation.save();
+
+  if (wishlist && result.modifiedCount > 0) {
+    emitWishlistEvent({ type: 'member.joined', wishlist, actor: user });
+  }
+
+  return wishlist;
+};
+
+/**
+ * Accept every pending invitation sent to a newly registered email.
+ * Returns how many wishlists the user joined.
+ */
+export const resolveInvitesForNewUser = async (user: {
+  _id: { toString(): string };
+  username: string;
+  email: string;
+}): Promise<number> => {
+  const actor = { _id: user._id.toString(), username: user.username };
+  const invitations = await Invitation.find({
+    email: user.email.toLowerCase(),
+    status: 'pending',
+  });
+
+  let joined = 0;
+
+  for (const invitation of invitations) {
+    if (isInviteExpired(invitation)) {
+      invitation.status = 'expired';
+      await invitation.save();
+      continue;
+    }
+
+    if (await joinFromInvitation(invitation, actor)) joined++;
+  }
+
+  return joined;
+};
@@ -6,15 +6,23 @@ dotenv.config();
 // In production, this should be in environment variable
 const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-only-for-development';
 
-// Token expires in 7 days
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+// Access tokens are short-lived; refresh tokens keep the user logged in
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
 
 /**
- * Generate JWT token for user
+ * Payload stored in an access token
  */
-export const generateToken = (userId: string): string => {
+export interface TokenPayload {
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * Generate JWT access token for a user session
+ */
+export const generateToken = (userId: string, sessionId: string): string => {
   return jwt.sign(
-    { userId }, // Payload (data stored in token)
+    { userId, sessionId }, // Payload (data stored in token)
     JWT_SECRET, // Secret key
     { expiresIn: JWT_EXPIRES_IN as jwt.SignOptions['expiresIn']} // Options
   );
@@ -23,9 +31,9 @@ export const generateToken = (userId: string): string => {
 /**
  * Verify JWT token
  */
-export const verifyToken = (token: string): { userId: string } | null => {
+export const verifyToken = (token: string): TokenPayload | null => {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    const decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
     return decoded;
   } catch (error) {
     return null;
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+/**
+ * A message to send
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Anything that can deliver a message (SMTP, file, console, test doubles...)
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Wishlist App <no-reply@localhost>';
+
+/**
+ * Sends through a real SMTP server
+ */
+export class SmtpTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Appends every message to a file (one JSON object per line)
+ * Handy for tests and local development without a mail server.
+ */
+export class FileTransport implements MailTransport {
+  constructor(private filePath: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(
+      this.filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+/**
+ * Prints every message to the console
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Pick a transport from MAIL_DRIVER (smtp | file | console, console when unset)
+ * Fails fast on a typo, and refuses the console in production - it would print
+ * live reset links to the logs.
+ */
+const createTransport = (): MailTransport => {
+  const driver = process.env.MAIL_DRIVER || 'console';
+
+  switch (driver) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport(process.env.MAIL_FILE_PATH || 'mail/outbox.log');
+    case 'console':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('MAIL_DRIVER must be smtp or file in production');
+      }
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_DRIVER "${driver}" (expected smtp, file or console)`);
+  }
+};
+
+// Chosen at startup so a bad MAIL_DRIVER stops the server, not the first email
+let transport: MailTransport = createTransport();
+
+/**
+ * Replace the transport (e.g. with an in-memory one in tests)
+ */
+export const setMailTransport = (customTransport: MailTransport): void => {
+  transport = customTransport;
+};
+
+/**
+ * Send an email using the configured transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await transport.send({ ...message, from: MAIL_FROM });
+};
@@ -0,0 +1,163 @@
+import Notification from '../models/Notification';
+import User from '../models/User';
+import { isActionAllowed } from '../config/emailVerification';
+import { WishlistEvent, onWishlistEvent } from './events';
+import { refId } from './wishlistView';
+import { friendIdsOf } from './friends';
+
+/**
+ * Events addressed to one person rather than the whole list
+ */
+const PERSONAL_EVENTS = [
+  'item.priceDropped',
+  'member.invited',
+  'member.removed',
+  'member.roleChanged',
+];
+
+/**
+ * Human readable text for an event
+ */
+const describeEvent = (event: WishlistEvent): string => {
+  const who = event.actor.username;
+  const list = event.wishlist.name;
+  const item = event.item ? `"${event.item.name}"` : 'an item';
+
+  switch (event.type) {
+    case 'wishlist.created':
+      return `${who} created ${list}`;
+    case 'wishlist.updated':
+      return `${who} updated ${list}`;
+    case 'wishlist.deleted':
+      return `${who} deleted ${list}`;
+    case 'wishlist.restored':
+      return `${who} restored ${list} from the trash`;
+    case 'wishlist.archived':
+      return `${list} was archived now that its occasion has passed`;
+    case 'wishlist.imported': {
+      const count = event.changes?.find((change) => change.field === 'itemsImported')?.after;
+      return `${who} imported ${count} item${count === 1 ? '' : 's'} into ${list}`;
+    }
+    case 'wishlist.occasionReminder': {
+      const days = event.changes?.find((change) => change.field === 'daysUntil')?.after;
+      return days === 0
+        ? `${list} is for today!`
+        : `${list} is coming up in ${days} day${days === 1 ? '' : 's'}`;
+    }
+    case 'item.added':
+      return `${who} added ${item} to ${list}`;
+    case 'item.updated':
+      return `${who} updated ${item} on ${list}`;
+    case 'item.deleted':
+      return `${who} removed ${item} from ${list}`;
+    case 'item.restored':
+      return `${who} restored ${item} on ${list}`;
+    case 'item.moved': {
+      const move = event.changes?.find((change) => change.field === 'wishlist');
+      return `${who} moved ${item} from ${move?.before} to ${move?.after}`;
+    }
+    case 'item.claimed':
+      return `${who} claimed ${item} on ${list}`;
+    case 'item.released':
+      return `${who} released their claim on ${item} on ${list}`;
+    case 'item.pledged':
+      return `${who} chipped in for ${item} on ${list}`;
+    case 'item.pledgeUpdated':
+      return `${who} changed their pledge for ${item} on ${list}`;
+    case 'item.pledgeWithdrawn':
+      return `${who} withdrew their pledge for ${item} on ${list}`;
+    case 'item.funded':
+      return `${item} on ${list} is fully funded`;
+    case 'item.poolLocked':
+      return `${who} locked the group gift for ${item} on ${list}`;
+    case 'item.poolUnlocked':
+      return `${who} reopened the group gift for ${item} on ${list}`;
+    case 'item.priceDropped': {
+      const price = event.changes?.find((change) => change.field === 'price');
+      return `${item} on ${list} dropped to ${price?.after ?? 'a lower price'}`;
+    }
+    case 'member.invited':
+      return `${who} invited you to ${list}`;
+    case 'member.joined':
+      return `${who} joined ${list}`;
+    case 'member.removed':
+      return `${who} removed you from ${list}`;
+    case 'member.roleChanged':
+      return `${who} changed your role on ${list}`;
+  }
+};
+
+/**
+ * Who should hear about an event (never the actor, never the owner for surprises).
+ * Occasion reminders also go to the owner's friends when they can see the list.
+ */
+const recipientsFor = async (event: WishlistEvent): Promise<string[]> => {
+  if (PERSONAL_EVENTS.includes(event.type)) {
+    return event.targetUserId ? [event.targetUserId] : [];
+  }
+
+  const ownerId = refId(event.wishlist.owner);
+  const memberIds = [
+    ownerId,
+    ...event.wishlist.collaborators.map((c) => refId(c.user)),
+  ];
+
+  if (
+    event.type === 'wishlist.occasionReminder' &&
+    ['friends', 'public'].includes(event.wishlist.visibility)
+  ) {
+    memberIds.push(...(await friendIdsOf(ownerId)));
+  }
+
+  return [...new Set(memberIds)].filter(
+    (id) => id !== event.actor._id && !(event.surprise && id === ownerId)
+  );
+};
+
+/**
+ * Store notifications for everyone who should (and wants to) see an event
+ */
+export const createNotificationsForEvent = async (
+  event: WishlistEvent
+): Promise<void> => {
+  const recipientIds = await recipientsFor(event);
+
+  if (recipientIds.length === 0) return;
+
+  const wishlistId = event.wishlist._id!.toString();
+  const users = await User.find({ _id: { $in: recipientIds } }).select(
+    'emailVerified notificationPreferences'
+  );
+
+  const recipients = users.filter((user) => {
+    const prefs = user.notificationPreferences;
+
+    return (
+      isActionAllowed(user.emailVerified, 'notifications') &&
+      !prefs.mutedTypes.includes(event.type) &&
+      !prefs.mutedWishlists.some((id) => id.toString() === wishlistId)
+    );
+  });
+
+  if (recipients.length === 0) return;
+
+  const message = describeEvent(event);
+
+  await Notification.insertMany(
+    recipients.map((user) => ({
+      recipient: user._id,
+      type: event.type,
+      wishlist: event.wishlist._id,
+      item: event.item?._id || null,
+      actor: event.actor._id,
+      message,
+    }))
+  );
+};
+
+/**
+ * Hook notifications up to the wishlist event bus
+ */
+export const registerNotificationListeners = (): void => {
+  onWishlistEvent(createNotificationsForEvent);
+};
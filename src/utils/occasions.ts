@@ -0,0 +1,84 @@
+import { IOccasion, DEFAULT_REMIND_DAYS } from '../models/Wishlist';
+import { OccasionBody } from '../schemas/wishlist';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Midnight UTC of a date (occasions are whole days)
+ */
+export const startOfDay = (date: Date): Date => {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getTime() + days * DAY_MS);
+};
+
+/**
+ * The same month and day in another year (Feb 29 falls back to Feb 28)
+ */
+const inYear = (date: Date, year: number): Date => {
+  const month = date.getUTCMonth();
+  const moved = new Date(Date.UTC(year, month, date.getUTCDate()));
+
+  return moved.getUTCMonth() === month ? moved : new Date(Date.UTC(year, month + 1, 0));
+};
+
+/**
+ * Next time the occasion happens on or after a day (null = one-off already past)
+ */
+export const nextOccurrence = (
+  occasion: Pick<IOccasion, 'date' | 'recurrence'>,
+  from: Date = new Date()
+): Date | null => {
+  const today = startOfDay(from);
+  const date = startOfDay(occasion.date);
+
+  if (occasion.recurrence !== 'yearly') {
+    return date >= today ? date : null;
+  }
+
+  const thisYear = inYear(date, today.getUTCFullYear());
+
+  return thisYear >= today ? thisYear : inYear(date, today.getUTCFullYear() + 1);
+};
+
+/**
+ * Whole days from one day to another
+ */
+export const daysBetween = (from: Date, to: Date): number => {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+};
+
+/**
+ * One-line summary of an occasion for the activity log
+ */
+export const describeOccasion = (
+  occasion: Pick<IOccasion, 'type' | 'date' | 'recurrence'> | null | undefined
+): string | null => {
+  if (!occasion) return null;
+
+  const date = occasion.date.toISOString().slice(0, 10);
+
+  return `${occasion.type} on ${date}${occasion.recurrence === 'yearly' ? ' (yearly)' : ''}`;
+};
+
+/**
+ * Fill in the defaults of an occasion from a request body (checked by the route's schema).
+ * Null clears the occasion.
+ */
+export const occasionWithDefaults = (
+  input: OccasionBody
+): Omit<IOccasion, 'lastReminder'> | null => {
+  if (input === null) return null;
+
+  const { type = 'other', date, recurrence, remindDaysBefore = DEFAULT_REMIND_DAYS } = input;
+
+  return {
+    type,
+    date: startOfDay(date),
+    // Birthdays and anniversaries come back every year unless told otherwise
+    recurrence: recurrence ?? (['birthday', 'anniversary'].includes(type) ? 'yearly' : 'none'),
+    remindDaysBefore: [...new Set(remindDaysBefore)].sort((a, b) => b - a),
+  };
+};
@@ -0,0 +1,207 @@
+import mongoose from 'mongoose';
+
+// Page size when a list doesn't set its own, and the largest a client may ask for
+const DEFAULT_LIMIT = 20;
+export const DEFAULT_MAX_LIMIT = 100;
+
+/**
+ * Where the previous page ended: the sort value and id of its last row
+ */
+export interface CursorPosition {
+  value: any;
+  id: string;
+}
+
+/**
+ * Parsed limit / cursor / sort query parameters
+ */
+export interface ListQuery {
+  limit: number;
+  sortField: string;
+  sortOrder: 1 | -1;
+  cursor: CursorPosition | null;
+}
+
+/**
+ * How a list may be sorted and paged (shared by its query schema and handler)
+ */
+export interface ListQueryOptions {
+  sortFields: string[]; // whitelisted sort fields
+  defaultSort: string; // e.g. '-createdAt'
+  defaultLimit?: number;
+  maxLimit?: number;
+}
+
+/**
+ * Pagination block of every list response
+ */
+export interface PageInfo {
+  total: number;
+  limit: number;
+  sort: string;
+  nextCursor: string | null;
+}
+
+// ==========================================
+// CURSORS
+// ==========================================
+
+/**
+ * Cursors are opaque to clients: base64url JSON of the last row's position
+ */
+const encodeCursor = (value: any, id: any): string => {
+  const encoded = value instanceof Date ? { date: value.toISOString() } : value ?? null;
+
+  return Buffer.from(JSON.stringify({ v: encoded, id: String(id) })).toString('base64url');
+};
+
+/**
+ * Read a cursor back. Only plain sort values are accepted (string, number, null
+ * or a date) - anything else would end up as an operator in the page filter.
+ */
+export const decodeCursor = (cursor: string): CursorPosition | null => {
+  try {
+    const { v, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (typeof id !== 'string' || !mongoose.isValidObjectId(id)) return null;
+
+    if (v === null || typeof v === 'string' || (typeof v === 'number' && Number.isFinite(v))) {
+      return { value: v, id };
+    }
+
+    const date = v && typeof v === 'object' && typeof v.date === 'string' ? new Date(v.date) : null;
+
+    return date && !Number.isNaN(date.getTime()) ? { value: date, id } : null;
+  } catch {
+    return null;
+  }
+};
+
+// ==========================================
+// QUERY PARSING
+// ==========================================
+
+/**
+ * Limit, cursor and sort (e.g. sort=-updatedAt) of a list request with the list's defaults
+ * filled in. The values were checked by the route's schema (see listQueryFields).
+ */
+export const listQueryFrom = (
+  query: { sort?: string; limit?: number; cursor?: CursorPosition },
+  options: ListQueryOptions
+): ListQuery => {
+  const sort = query.sort ?? options.defaultSort;
+
+  return {
+    limit: query.limit ?? options.defaultLimit ?? DEFAULT_LIMIT,
+    sortField: sort.replace(/^-/, ''),
+    sortOrder: sort.startsWith('-') ? -1 : 1,
+    cursor: query.cursor ?? null,
+  };
+};
+
+const sortLabel = (listQuery: ListQuery): string => {
+  return `${listQuery.sortOrder === -1 ? '-' : ''}${listQuery.sortField}`;
+};
+
+// ==========================================
+// DATABASE LISTS
+// ==========================================
+
+/**
+ * Run a paginated find: filter + keyset cursor, sorted with _id as tie-breaker
+ */
+export const findPage = async <T extends { _id: any }>(
+  model: mongoose.Model<T>,
+  filter: Record<string, any>,
+  listQuery: ListQuery,
+  prepare: (query: mongoose.Query<any[], any>) => mongoose.Query<any[], any> = (q) => q
+): Promise<{ docs: T[]; pageInfo: PageInfo }> => {
+  const { sortField, sortOrder, cursor, limit } = listQuery;
+  const after = sortOrder === 1 ? '$gt' : '$lt';
+
+  const pageFilter = cursor
+    ? {
+        $and: [
+          filter,
+          {
+            $or: [
+              { [sortField]: { [after]: cursor.value } },
+              { [sortField]: cursor.value, _id: { [after]: new mongoose.Types.ObjectId(cursor.id) } },
+            ],
+          },
+        ],
+      }
+    : filter;
+
+  // One extra row tells us whether there is a next page
+  const [rows, total] = await Promise.all([
+    prepare(
+      model
+        .find(pageFilter)
+        .sort({ [sortField]: sortOrder, _id: sortOrder })
+        .limit(limit + 1)
+    ),
+    model.countDocuments(filter),
+  ]);
+
+  const docs = rows.slice(0, limit) as T[];
+  const last: any = docs[docs.length - 1];
+
+  return {
+    docs,
+    pageInfo: {
+      total,
+      limit,
+      sort: sortLabel(listQuery),
+      nextCursor: rows.length > limit ? encodeCursor(last[sortField], last._id) : null,
+    },
+  };
+};
+
+// ==========================================
+// IN-MEMORY LISTS (embedded arrays)
+// ==========================================
+
+/**
+ * Compare sort values; nulls sort first, like MongoDB
+ */
+const compareValues = (a: any, b: any): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  if (a instanceof Date || b instanceof Date) return new Date(a).getTime() - new Date(b).getTime();
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  return a < b ? -1 : 1;
+};
+
+/**
+ * Paginate an array the same way findPage paginates a collection
+ */
+export const paginateArray = <T extends { _id?: any }>(
+  rows: T[],
+  listQuery: ListQuery,
+  valueOf: (row: T, field: string) => any = (row: any, field) => row[field]
+): { page: T[]; pageInfo: PageInfo } => {
+  const { sortField, sortOrder, cursor, limit } = listQuery;
+
+  const compare = (a: { value: any; id: string }, b: { value: any; id: string }) =>
+    (compareValues(a.value, b.value) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)) * sortOrder;
+
+  const sorted = rows
+    .map((row) => ({ row, key: { value: valueOf(row, sortField), id: String(row._id) } }))
+    .sort((a, b) => compare(a.key, b.key));
+
+  const remaining = cursor ? sorted.filter(({ key }) => compare(key, cursor) > 0) : sorted;
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    page: page.map(({ row }) => row),
+    pageInfo: {
+      total: rows.length,
+      limit,
+      sort: sortLabel(listQuery),
+      nextCursor: remaining.length > limit ? encodeCursor(last.key.value, last.key.id) : null,
+    },
+  };
+};
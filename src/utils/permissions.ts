@@ -0,0 +1,110 @@
+import { IWishlist, CollaboratorRole } from '../models/Wishlist';
+import { refId } from './wishlistView';
+
+/**
+ * Everyone who can reach a wishlist: the owner or a collaborator role
+ */
+export type WishlistRole = 'owner' | CollaboratorRole;
+
+/**
+ * Things a user can do on a wishlist
+ */
+export type Permission =
+  | 'view'
+  | 'addItems'
+  | 'editOwnItems'
+  | 'editOthersItems'
+  | 'deleteOwnItems'
+  | 'deleteOthersItems'
+  | 'claimItems'
+  | 'pledge'
+  | 'invite'
+  | 'manageCollaborators'
+  | 'manageSettings'
+  | 'deleteWishlist';
+
+/**
+ * Permission matrix
+ * The owner never claims (surprise!); managers run the list day to day.
+ */
+const PERMISSIONS: Record<WishlistRole, Permission[]> = {
+  owner: [
+    'view',
+    'addItems',
+    'editOwnItems',
+    'editOthersItems',
+    'deleteOwnItems',
+    'deleteOthersItems',
+    'invite',
+    'manageCollaborators',
+    'manageSettings',
+    'deleteWishlist',
+  ],
+  manager: [
+    'view',
+    'addItems',
+    'editOwnItems',
+    'editOthersItems',
+    'deleteOwnItems',
+    'deleteOthersItems',
+    'claimItems',
+    'pledge',
+    'invite',
+    'manageSettings',
+  ],
+  editor: [
+    'view',
+    'addItems',
+    'editOwnItems',
+    'deleteOwnItems',
+    'claimItems',
+    'pledge',
+  ],
+  viewer: ['view', 'claimItems', 'pledge'],
+};
+
+/**
+ * Get the role a user has on a wishlist (null = no access)
+ */
+export const getWishlistRole = (
+  wishlist: IWishlist,
+  userId?: string
+): WishlistRole | null => {
+  if (!userId) return null;
+  if (refId(wishlist.owner) === userId) return 'owner';
+
+  const collaborator = wishlist.collaborators.find(
+    (c) => refId(c.user) === userId
+  );
+
+  return collaborator ? collaborator.role : null;
+};
+
+/**
+ * Check if a role grants a permission
+ */
+export const roleCan = (
+  role: WishlistRole | null | undefined,
+  permission: Permission
+): boolean => {
+  return !!role && PERMISSIONS[role].includes(permission);
+};
+
+/**
+ * Check if a role may edit or delete a specific item.
+ * Own items need the "own" permission, everyone else's the "others" one.
+ */
+export const canModifyItem = (
+  role: WishlistRole | null | undefined,
+  item: { addedBy: any },
+  userId: string | undefined,
+  action: 'edit' | 'delete'
+): boolean => {
+  const isOwnItem = refId(item.addedBy) === userId;
+
+  if (action === 'edit') {
+    return roleCan(role, isOwnItem ? 'editOwnItems' : 'editOthersItems');
+  }
+
+  return roleCan(role, isOwnItem ? 'deleteOwnItems' : 'deleteOthersItems');
+};
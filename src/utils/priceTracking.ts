@@ -0,0 +1,132 @@
+import mongoose from 'mongoose';
+import { IItem, IWishlist } from '../models/Wishlist';
+import { EventActor, SYSTEM_ACTOR, WishlistEvent } from './events';
+import { refId } from './wishlistView';
+
+// Alert on a 10% drop unless the watch or the environment says otherwise
+const DEFAULT_DROP_PERCENT = Number(process.env.PRICE_DROP_PERCENT) || 10;
+
+/**
+ * Append a price to an item's history (no-op if the price didn't change)
+ */
+export const recordPrice = (
+  item: Pick<IItem, 'currency' | 'priceHistory'>,
+  price: number | null,
+  source: 'manual' | 'refresh',
+  userId?: string
+): boolean => {
+  if (price === null || price === undefined) return false;
+
+  const last = item.priceHistory[item.priceHistory.length - 1];
+  if (last && last.price === price && last.currency === item.currency) return false;
+
+  item.priceHistory.push({
+    price,
+    currency: item.currency,
+    source,
+    recordedBy: userId ? new mongoose.Types.ObjectId(userId) : null,
+    recordedAt: new Date(),
+  });
+
+  return true;
+};
+
+/**
+ * Check every watch on an item against its current price.
+ * Mutates the watches (new base price) and returns the alerts to send -
+ * emit them only once the change is saved, or a failed write still alerts.
+ */
+export const checkPriceWatches = (
+  wishlist: IWishlist,
+  item: IItem,
+  actor: EventActor = SYSTEM_ACTOR
+): WishlistEvent[] => {
+  const price = item.price;
+  if (price === null || price === undefined) return [];
+
+  const alerts: WishlistEvent[] = [];
+
+  item.priceWatches.forEach((watch) => {
+    const dropPercent = watch.dropPercent ?? DEFAULT_DROP_PERCENT;
+    const hitTarget = watch.targetPrice !== null && price <= watch.targetPrice;
+    const dropped =
+      watch.basePrice !== null && price <= watch.basePrice * (1 - dropPercent / 100);
+
+    // Prices going up move the baseline too, so a later drop is measured from there
+    if (watch.basePrice === null || price > watch.basePrice) {
+      watch.basePrice = price;
+    }
+
+    if (!hitTarget && !dropped) return;
+
+    // Already told them about this price (or a lower one)
+    if (watch.lastAlertAt && watch.basePrice === price) return;
+
+    const watcherId = refId(watch.user);
+    const previous = watch.basePrice;
+
+    watch.basePrice = price;
+    watch.lastAlertAt = new Date();
+
+    alerts.push({
+      type: 'item.priceDropped',
+      wishlist,
+      actor,
+      item: { _id: item._id!.toString(), name: item.name },
+      targetUserId: watcherId,
+      changes: [{ field: 'price', before: previous, after: price }],
+      // A giver watching the price is none of the owner's business
+      surprise: watcherId !== refId(wishlist.owner),
+    });
+  });
+
+  return alerts;
+};
+
+/**
+ * Update operators and alerts for an item whose price changed
+ */
+export interface PriceUpdate {
+  push: Record<string, any>;
+  set: Record<string, any>;
+  arrayFilters: Record<string, any>[];
+  alerts: WishlistEvent[]; // send once the update is written
+}
+
+/**
+ * Record an item's current price and check its watches, as an atomic update:
+ * the new history entry is pushed and only the watches that changed are set,
+ * so concurrent writes to either survive. The update must match the item as `$[i]`.
+ * Null if the price didn't change.
+ */
+export const priceUpdate = (
+  wishlist: IWishlist,
+  item: IItem,
+  source: 'manual' | 'refresh',
+  userId?: string,
+  actor: EventActor = SYSTEM_ACTOR
+): PriceUpdate | null => {
+  if (!recordPrice(item, item.price, source, userId)) return null;
+
+  const before = item.priceWatches.map(({ basePrice, lastAlertAt }) => ({ basePrice, lastAlertAt }));
+  const alerts = checkPriceWatches(wishlist, item, actor);
+  const set: Record<string, any> = {};
+  const arrayFilters: Record<string, any>[] = [];
+
+  item.priceWatches.forEach((watch, index) => {
+    const { basePrice, lastAlertAt } = before[index];
+    if (watch.basePrice === basePrice && watch.lastAlertAt === lastAlertAt) return;
+
+    const n = arrayFilters.length;
+    set[`items.$[i].priceWatches.$[w${n}].basePrice`] = watch.basePrice;
+    set[`items.$[i].priceWatches.$[w${n}].lastAlertAt`] = watch.lastAlertAt;
+    arrayFilters.push({ [`w${n}.user`]: watch.user });
+  });
+
+  return {
+    push: { 'items.$[i].priceHistory': item.priceHistory[item.priceHistory.length - 1] },
+    set,
+    arrayFilters,
+    alerts,
+  };
+};
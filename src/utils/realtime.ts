@@ -0,0 +1,429 @@
+import { Response } from 'express';
+import { WishlistEvent, WishlistEventType, EventActor, FieldChange, onWishlistEvent } from './events';
+import { WishlistRole } from './permissions';
+import { itemForViewer, refId, sharedItemView, SURPRISE_FIELDS } from './wishlistView';
+import { randomToken } from './tokens';
+
+// Events kept per wishlist for clients resuming after a reconnect
+const REPLAY_WINDOW_MS = 10 * 60 * 1000;
+const MAX_REPLAY_PER_WISHLIST = 200;
+
+// Comment lines keep proxies from closing idle streams
+const HEARTBEAT_MS = 25 * 1000;
+
+// Wishlists one stream may follow
+export const MAX_SUBSCRIPTIONS = 20;
+
+// Streams one user may have open at once (tabs and devices together)
+export const MAX_STREAMS_PER_USER = 5;
+
+/**
+ * Events only their target hears about. Unlike notifications, members see
+ * removals and role changes: the collaborator list is part of their view.
+ */
+const PERSONAL_EVENTS: WishlistEventType[] = ['item.priceDropped', 'member.invited'];
+
+/**
+ * What outsiders (friends, public viewers) hear about: changes to what they can see
+ */
+const OUTSIDER_EVENTS: WishlistEventType[] = [
+  'wishlist.updated',
+  'wishlist.deleted',
+  'item.added',
+  'item.updated',
+  'item.deleted',
+  'item.restored',
+  'item.moved',
+];
+
+/**
+ * An event as kept for replay - enough to build any viewer's message later
+ */
+interface BufferedEvent {
+  seq: number;
+  type: WishlistEventType;
+  wishlistId: string;
+  ownerId: string;
+  visibility: string;
+  members: Record<string, WishlistRole>;
+  actor: EventActor;
+  item?: { _id: string; name: string };
+  itemData: any | null; // the item as stored, redacted per viewer on send
+  targetUserId?: string;
+  changes?: FieldChange[];
+  surprise?: boolean;
+  at: Date;
+}
+
+/**
+ * One wishlist a stream follows (outsider = not a member, sees the shared view)
+ */
+export interface Subscription {
+  wishlistId: string;
+  outsider: boolean;
+}
+
+/**
+ * One open event stream
+ */
+interface Connection {
+  id: string;
+  res: Response;
+  user: { _id: string; username: string };
+  subscriptions: Map<string, Subscription>;
+  heartbeat: NodeJS.Timeout;
+}
+
+// Everything lives in this process, like the event bus it listens to
+const connections = new Set<Connection>();
+const buffers = new Map<string, BufferedEvent[]>();
+const prunedThrough = new Map<string, number>(); // highest seq dropped per wishlist
+
+// Event ids are "<boot>.<seq>" so ids from before a restart are recognised
+const BOOT_ID = randomToken(6);
+let lastSeq = 0;
+
+const eventId = (seq: number): string => `${BOOT_ID}.${seq}`;
+
+// ==========================================
+// WRITING TO STREAMS
+// ==========================================
+
+/**
+ * Write one SSE message (events without an id don't move the client's resume point)
+ */
+const send = (connection: Connection, event: string, data: any, id?: string): void => {
+  connection.res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Build what one subscriber gets for an event, or null if it isn't theirs to see.
+ * Never surprises for the owner; outsiders only get changes to the shared view.
+ * Neither sees claim and pledge fields among the changes, like the activity log.
+ */
+const messageFor = (entry: BufferedEvent, userId: string, subscription: Subscription): any | null => {
+  if (PERSONAL_EVENTS.includes(entry.type) && entry.targetUserId !== userId) return null;
+  if (entry.surprise && entry.ownerId === userId) return null;
+
+  const outsider = subscription.outsider && !entry.members[userId];
+
+  if (outsider && (entry.surprise || !OUTSIDER_EVENTS.includes(entry.type))) return null;
+
+  let item: any = entry.item;
+
+  if (entry.itemData) {
+    item = outsider
+      ? sharedItemView(entry.itemData)
+      : itemForViewer({ owner: entry.ownerId }, entry.itemData, userId);
+  }
+
+  const changes =
+    entry.changes && (outsider || entry.ownerId === userId)
+      ? entry.changes.filter((change) => !SURPRISE_FIELDS.includes(change.field))
+      : entry.changes;
+
+  return {
+    id: eventId(entry.seq),
+    type: entry.type,
+    wishlistId: entry.wishlistId,
+    actor: entry.actor,
+    ...(item && { item }),
+    ...(changes && { changes }),
+    at: entry.at,
+  };
+};
+
+/**
+ * Why a subscriber can no longer follow a wishlist after this event (null = they still can)
+ */
+const lostAccess = (entry: BufferedEvent, userId: string, subscription: Subscription): string | null => {
+  if (entry.type === 'wishlist.deleted') return 'deleted';
+
+  if (subscription.outsider) {
+    return entry.members[userId] || ['public', 'friends'].includes(entry.visibility) ? null : 'private';
+  }
+
+  return entry.members[userId] ? null : 'removed';
+};
+
+// ==========================================
+// PRESENCE
+// ==========================================
+
+/**
+ * How many streams a user has open
+ */
+export const streamCountOf = (userId: string): number => {
+  let count = 0;
+
+  connections.forEach((connection) => {
+    if (connection.user._id === userId) count++;
+  });
+
+  return count;
+};
+
+/**
+ * Who has a stream open on a wishlist (one entry per user, however many tabs)
+ */
+export const viewersOf = (wishlistId: string): { _id: string; username: string; outsider: boolean }[] => {
+  const viewers = new Map<string, { _id: string; username: string; outsider: boolean }>();
+
+  connections.forEach((connection) => {
+    const subscription = connection.subscriptions.get(wishlistId);
+
+    if (subscription && !viewers.has(connection.user._id)) {
+      viewers.set(connection.user._id, { ...connection.user, outsider: subscription.outsider });
+    }
+  });
+
+  return [...viewers.values()];
+};
+
+/**
+ * Tell everyone following a wishlist who is viewing it.
+ * Outsiders only get a count - members' names aren't part of the shared view.
+ */
+const broadcastPresence = (wishlistId: string): void => {
+  const viewers = viewersOf(wishlistId);
+
+  connections.forEach((connection) => {
+    const subscription = connection.subscriptions.get(wishlistId);
+
+    if (!subscription) return;
+
+    send(connection, 'presence', {
+      wishlistId,
+      count: viewers.length,
+      ...(!subscription.outsider && { viewers }),
+    });
+  });
+};
+
+// ==========================================
+// PUBLISHING
+// ==========================================
+
+/**
+ * Forget events that are too old (or too many) to replay
+ */
+const prune = (wishlistId: string, buffer: BufferedEvent[], now: number): void => {
+  let drop = Math.max(buffer.length - MAX_REPLAY_PER_WISHLIST, 0);
+
+  while (drop < buffer.length && now - buffer[drop].at.getTime() > REPLAY_WINDOW_MS) drop++;
+
+  if (!drop) return;
+
+  prunedThrough.set(wishlistId, buffer[drop - 1].seq);
+  buffer.splice(0, drop);
+
+  if (!buffer.length) buffers.delete(wishlistId);
+};
+
+/**
+ * Drop a subscription; a stream with nothing left to follow is closed
+ */
+const unsubscribe = (connection: Connection, wishlistId: string, reason: string): void => {
+  connection.subscriptions.delete(wishlistId);
+  send(connection, 'unsubscribed', { wishlistId, reason });
+
+  if (!connection.subscriptions.size) {
+    closeConnection(connection);
+  }
+
+  broadcastPresence(wishlistId);
+};
+
+/**
+ * Keep an event for replay and push it to everyone following the wishlist
+ */
+export const publishEvent = (event: WishlistEvent): void => {
+  const { wishlist } = event;
+  const wishlistId = wishlist._id.toString();
+  const members: Record<string, WishlistRole> = { [refId(wishlist.owner)]: 'owner' };
+
+  wishlist.collaborators.forEach((c) => {
+    members[refId(c.user)] = c.role;
+  });
+
+  const stored = event.item && wishlist.items.find((i) => i._id?.toString() === event.item!._id);
+
+  const entry: BufferedEvent = {
+    seq: ++lastSeq,
+    type: event.type,
+    wishlistId,
+    ownerId: refId(wishlist.owner),
+    visibility: wishlist.visibility,
+    members,
+    actor: event.actor,
+    item: event.item,
+    itemData: stored ? stored.toObject() : null,
+    targetUserId: event.targetUserId,
+    changes: event.changes,
+    surprise: event.surprise,
+    at: new Date(),
+  };
+
+  const buffer = buffers.get(wishlistId) || [];
+
+  buffer.push(entry);
+  buffers.set(wishlistId, buffer);
+  prune(wishlistId, buffer, entry.at.getTime());
+
+  connections.forEach((connection) => {
+    const subscription = connection.subscriptions.get(wishlistId);
+
+    if (!subscription) return;
+
+    const message = messageFor(entry, connection.user._id, subscription);
+
+    if (message) send(connection, 'wishlist', message, message.id);
+
+    const reason = lostAccess(entry, connection.user._id, subscription);
+
+    if (reason) unsubscribe(connection, wishlistId, reason);
+  });
+};
+
+/**
+ * Stream wishlist events to connected clients
+ */
+export const registerRealtimeListeners = (): void => {
+  onWishlistEvent(publishEvent);
+};
+
+// ==========================================
+// CONNECTIONS
+// ==========================================
+
+/**
+ * Events a client missed since lastEventId, or the wishlists it must reload
+ * because what it missed is no longer kept (or the server restarted)
+ */
+const missedEvents = (
+  lastEventId: string,
+  connection: Connection
+): { messages: any[]; resync: string[] } => {
+  const [boot, seqText] = lastEventId.split('.');
+  const since = Number(seqText);
+  const followed = [...connection.subscriptions.values()];
+
+  if (boot !== BOOT_ID || !Number.isInteger(since)) {
+    return { messages: [], resync: followed.map((s) => s.wishlistId) };
+  }
+
+  const resync: string[] = [];
+  const missed: { entry: BufferedEvent; subscription: Subscription }[] = [];
+
+  followed.forEach((subscription) => {
+    if ((prunedThrough.get(subscription.wishlistId) ?? 0) > since) {
+      resync.push(subscription.wishlistId);
+      return;
+    }
+
+    (buffers.get(subscription.wishlistId) || [])
+      .filter((entry) => entry.seq > since)
+      .forEach((entry) => missed.push({ entry, subscription }));
+  });
+
+  const messages = missed
+    .sort((a, b) => a.entry.seq - b.entry.seq)
+    .map(({ entry, subscription }) => messageFor(entry, connection.user._id, subscription))
+    .filter(Boolean);
+
+  return { messages, resync };
+};
+
+/**
+ * Close a stream and tell the others it's gone
+ */
+const closeConnection = (connection: Connection): void => {
+  if (!connections.delete(connection)) return;
+
+  clearInterval(connection.heartbeat);
+  connection.res.end();
+
+  connection.subscriptions.forEach((_, wishlistId) => broadcastPresence(wishlistId));
+};
+
+/**
+ * Checks re-run with every heartbeat: the stream ends once the session does,
+ * and a wishlist the user can no longer see is unsubscribed with the reason given
+ */
+export interface StreamChecks {
+  sessionAlive: () => Promise<boolean>;
+  lostAccess: (subscriptions: Subscription[]) => Promise<{ wishlistId: string; reason: string }[]>;
+}
+
+/**
+ * Open an event stream for an authorized user
+ */
+export const openStream = (
+  res: Response,
+  user: { _id: string; username: string },
+  subscriptions: Subscription[],
+  lastEventId: string | undefined,
+  checks: StreamChecks
+): (() => void) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-store',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // don't let nginx hold messages back
+  });
+  res.write('retry: 5000\n\n');
+
+  const connection: Connection = {
+    id: randomToken(12),
+    res,
+    user,
+    subscriptions: new Map(subscriptions.map((s) => [s.wishlistId, s])),
+    heartbeat: setInterval(async () => {
+      try {
+        if (await checks.sessionAlive()) {
+          const lost = await checks.lostAccess([...connection.subscriptions.values()]);
+
+          // The stream may have closed while the checks ran
+          if (!connections.has(connection)) return;
+
+          lost.forEach(({ wishlistId, reason }) => {
+            if (connection.subscriptions.has(wishlistId)) unsubscribe(connection, wishlistId, reason);
+          });
+
+          if (connections.has(connection)) res.write(': ping\n\n');
+          return;
+        }
+      } catch (error) {
+        console.error('Error checking event stream access:', error);
+      }
+
+      send(connection, 'end', { reason: 'Session has ended. Please login again.' });
+      closeConnection(connection);
+    }, HEARTBEAT_MS),
+  };
+
+  // Catch up before anything new can arrive (publishing is synchronous)
+  if (lastEventId) {
+    const { messages, resync } = missedEvents(lastEventId, connection);
+
+    messages.forEach((message) => send(connection, 'wishlist', message, message.id));
+
+    if (resync.length) send(connection, 'resync', { wishlistIds: resync });
+  }
+
+  connections.add(connection);
+
+  send(
+    connection,
+    'ready',
+    {
+      connectionId: connection.id,
+      wishlistIds: [...connection.subscriptions.keys()],
+    },
+    eventId(lastSeq) // a fresh client resumes from here
+  );
+
+  connection.subscriptions.forEach((_, wishlistId) => broadcastPresence(wishlistId));
+
+  return () => closeConnection(connection);
+};
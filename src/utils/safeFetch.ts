@@ -0,0 +1,275 @@
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * Response of a page fetch (body already decoded to text)
+ */
+export interface FetchResult {
+  url: string; // final URL after redirects
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * Anything that can fetch a page. Injectable so tests can use a local server.
+ */
+export type Fetcher = (url: string) => Promise<FetchResult>;
+
+export interface HttpFetcherOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+  allowPrivateAddresses?: boolean; // only for tests against localhost
+}
+
+/**
+ * Error thrown when a URL can't or mustn't be fetched
+ */
+export class FetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+/**
+ * Check an IPv4 address against private, loopback, link-local and reserved ranges
+ */
+const isPrivateIPv4 = (ip: string): boolean => {
+  const [a, b] = ip.split('.').map(Number);
+
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local / cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+  );
+};
+
+/**
+ * Expand an IPv6 address to its 16 bytes (null if it isn't one).
+ * Handles "::" and a dotted IPv4 tail, so every spelling of an address compares equal.
+ */
+const ipv6Bytes = (ip: string): number[] | null => {
+  if (!net.isIPv6(ip)) return null;
+
+  let address = ip.toLowerCase().replace(/%.*$/, ''); // drop any zone id
+
+  // Dotted IPv4 tail (::ffff:127.0.0.1) becomes two hex groups
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[2].split('.').map(Number);
+    address = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeros = address.includes('::') ? 8 - headGroups.length - tailGroups.length : 0;
+  const groups = [...headGroups, ...Array(zeros).fill('0'), ...tailGroups];
+
+  return groups.flatMap((group) => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+};
+
+const startsWith = (bytes: number[], prefix: number[]): boolean =>
+  prefix.every((byte, index) => bytes[index] === byte);
+
+const bytesToIPv4 = (bytes: number[]): string => bytes.join('.');
+
+/**
+ * Check whether an IP address points somewhere we must not reach.
+ * IPv6 forms that carry an IPv4 address are judged by that address.
+ */
+export const isPrivateAddress = (ip: string): boolean => {
+  if (net.isIPv4(ip)) return isPrivateIPv4(ip);
+
+  const bytes = ipv6Bytes(ip);
+  if (!bytes) return true; // not an address we understand - don't go there
+
+  const zeros = (count: number) => Array(count).fill(0);
+
+  // IPv4-compatible (::a.b.c.d, which also covers :: and ::1),
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-translated (::ffff:0:a.b.c.d)
+  if (
+    startsWith(bytes, zeros(12)) ||
+    startsWith(bytes, [...zeros(10), 0xff, 0xff]) ||
+    startsWith(bytes, [...zeros(8), 0xff, 0xff, 0, 0])
+  ) {
+    return isPrivateIPv4(bytesToIPv4(bytes.slice(12)));
+  }
+
+  // NAT64 (64:ff9b::/96 and the local-use 64:ff9b:1::/48)
+  if (startsWith(bytes, [0, 0x64, 0xff, 0x9b, ...zeros(8)])) {
+    return isPrivateIPv4(bytesToIPv4(bytes.slice(12)));
+  }
+  if (startsWith(bytes, [0, 0x64, 0xff, 0x9b, 0, 1])) return true;
+
+  // 6to4 (2002:AABB:CCDD::/48 carries AA.BB.CC.DD)
+  if (startsWith(bytes, [0x20, 0x02])) {
+    return isPrivateIPv4(bytesToIPv4(bytes.slice(2, 6)));
+  }
+
+  // Teredo hides its IPv4 addresses, so refuse it outright
+  if (startsWith(bytes, [0x20, 0x01, 0, 0])) return true;
+
+  return (
+    (bytes[0] & 0xfe) === 0xfc || // unique local (fc00::/7)
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) || // link-local (fe80::/10)
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0xc0) || // old site-local (fec0::/10)
+    bytes[0] === 0xff // multicast
+  );
+};
+
+/**
+ * DNS lookup that refuses private addresses.
+ * Checking at connect time (not before) also stops DNS rebinding.
+ */
+const safeLookup: typeof dns.lookup = ((
+  hostname: string,
+  options: any,
+  callback: any
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses: any) => {
+    if (error) return callback(error);
+
+    const list = addresses as dns.LookupAddress[];
+    const blocked = list.find((address) => isPrivateAddress(address.address));
+
+    if (blocked) {
+      return callback(new FetchError(`Refusing to fetch private address ${blocked.address}`));
+    }
+
+    if (options?.all) return callback(null, list);
+
+    callback(null, list[0].address, list[0].family);
+  });
+}) as typeof dns.lookup;
+
+/**
+ * Create a fetcher with timeouts, size limits and SSRF protection
+ */
+export const createHttpFetcher = (options: HttpFetcherOptions = {}): Fetcher => {
+  const timeoutMs = options.timeoutMs ?? 5000;
+  const maxBytes = options.maxBytes ?? 1024 * 1024;
+  const maxRedirects = options.maxRedirects ?? 3;
+  const allowPrivate = options.allowPrivateAddresses ?? false;
+
+  const fetchOnce = (target: URL): Promise<FetchResult & { location?: string }> => {
+    return new Promise((resolve, reject) => {
+      const client = target.protocol === 'https:' ? https : http;
+
+      const request = client.get(
+        target,
+        {
+          headers: {
+            'User-Agent': 'WishlistBot/1.0 (+link preview)',
+            Accept: 'text/html,application/xhtml+xml',
+          },
+          lookup: allowPrivate ? undefined : safeLookup,
+          timeout: timeoutMs,
+        },
+        (response) => {
+          const status = response.statusCode || 0;
+          const contentType = String(response.headers['content-type'] || '');
+
+          if (status >= 300 && status < 400 && response.headers.location) {
+            response.resume();
+            resolve({ url: target.toString(), status, contentType, body: '', location: response.headers.location });
+            return;
+          }
+
+          const chunks: Buffer[] = [];
+          let received = 0;
+
+          response.on('data', (chunk: Buffer) => {
+            received += chunk.length;
+
+            if (received > maxBytes) {
+              request.destroy(new FetchError(`Response exceeds ${maxBytes} bytes`));
+              return;
+            }
+
+            chunks.push(chunk);
+          });
+          response.on('end', () => {
+            resolve({
+              url: target.toString(),
+              status,
+              contentType,
+              body: Buffer.concat(chunks).toString('utf8'),
+            });
+          });
+          response.on('error', reject);
+        }
+      );
+
+      // Overall deadline, not just socket idle time
+      const deadline = setTimeout(() => {
+        request.destroy(new FetchError(`Request timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      // Backstop for whatever slipped past the checks above: never talk to a private peer
+      if (!allowPrivate) {
+        request.on('socket', (socket) => {
+          socket.once('connect', () => {
+            if (socket.remoteAddress && isPrivateAddress(socket.remoteAddress)) {
+              request.destroy(
+                new FetchError(`Refusing to fetch private address ${socket.remoteAddress}`)
+              );
+            }
+          });
+        });
+      }
+
+      request.on('timeout', () => {
+        request.destroy(new FetchError(`Request timed out after ${timeoutMs}ms`));
+      });
+      request.on('error', reject);
+      request.on('close', () => clearTimeout(deadline));
+    });
+  };
+
+  return async (url: string): Promise<FetchResult> => {
+    let target: URL;
+
+    try {
+      target = new URL(url);
+    } catch {
+      throw new FetchError('Invalid URL');
+    }
+
+    for (let hop = 0; hop <= maxRedirects; hop++) {
+      if (!['http:', 'https:'].includes(target.protocol)) {
+        throw new FetchError('Only http and https URLs can be fetched');
+      }
+
+      // Literal IPs skip DNS, so check them here
+      const host = target.hostname.replace(/^\[|\]$/g, '');
+      if (!allowPrivate && net.isIP(host) && isPrivateAddress(host)) {
+        throw new FetchError(`Refusing to fetch private address ${host}`);
+      }
+
+      const result = await fetchOnce(target);
+
+      if (!result.location) {
+        const { location, ...page } = result;
+        return page;
+      }
+
+      target = new URL(result.location, target);
+    }
+
+    throw new FetchError(`Too many redirects (max ${maxRedirects})`);
+  };
+};
@@ -0,0 +1,95 @@
+/**
+ * A matched field with the matching words marked up
+ */
+export interface Highlight {
+  field: string;
+  snippet: string; // HTML-escaped, so only our <mark> tags are markup
+}
+
+// How much a hit in each field counts toward relevance
+const FIELD_WEIGHTS: Record<string, number> = {
+  name: 5,
+  description: 2,
+  url: 1,
+};
+
+const SNIPPET_RADIUS = 40;
+
+const escapeRegExp = (text: string): string => {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
+/**
+ * Split a query into search terms (lowercase, plural "s" dropped so
+ * "headphones" still finds "headphone" like the text index does)
+ */
+export const searchTerms = (query: string): string[] => {
+  const terms = query
+    .replace(/(^|\s)-\S+/g, ' ') // excluded words ("-wired") never match
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 1)
+    .map((term) => (term.length > 3 ? term.replace(/e?s$/, '') : term));
+
+  return [...new Set(terms)];
+};
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Cut a window of text around the first match and wrap matches in <mark>.
+ * Names, descriptions and URLs are user input, so everything else is escaped.
+ */
+const snippetFor = (text: string, pattern: RegExp): string => {
+  const first = text.search(pattern);
+  const start = Math.max(first - SNIPPET_RADIUS, 0);
+  const end = Math.min(first + SNIPPET_RADIUS * 2, text.length);
+  const window = text.slice(start, end);
+
+  // Escape around the matches rather than before, so a term can't match inside an entity
+  let marked = '';
+  let last = 0;
+
+  for (const match of window.matchAll(pattern)) {
+    marked += `${escapeHtml(window.slice(last, match.index))}<mark>${escapeHtml(match[0])}</mark>`;
+    last = match.index! + match[0].length;
+  }
+
+  marked += escapeHtml(window.slice(last));
+
+  return `${start > 0 ? '…' : ''}${marked}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Score the given fields against the terms and build highlights
+ */
+export const matchFields = (
+  fields: Record<string, string | undefined>,
+  terms: string[]
+): { score: number; highlights: Highlight[] } => {
+  if (terms.length === 0) return { score: 0, highlights: [] };
+
+  // Mark whole words, not just the stemmed part
+  const pattern = new RegExp(`(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+  const highlights: Highlight[] = [];
+  let score = 0;
+
+  Object.entries(fields).forEach(([field, text]) => {
+    if (!text) return;
+
+    const hits = text.match(pattern)?.length || 0;
+    if (hits === 0) return;
+
+    score += hits * (FIELD_WEIGHTS[field] ?? 1);
+    highlights.push({ field, snippet: snippetFor(text, pattern) });
+  });
+
+  return { score, highlights };
+};
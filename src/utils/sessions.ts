@@ -0,0 +1,153 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import Session, { SessionRevokeReason } from '../models/Session';
+import { generateToken } from './jwt';
+import { randomToken, hashToken } from './tokens';
+
+// Refresh tokens (and so sessions) last 30 days unless configured otherwise
+const REFRESH_TOKEN_EXPIRES_DAYS = Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS) || 30;
+
+/**
+ * Access + refresh token pair handed to the client
+ */
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+/**
+ * Result of trying to rotate a refresh token
+ */
+export type RefreshResult =
+  | { status: 'ok'; userId: string; tokens: AuthTokens }
+  | { status: 'invalid' }
+  | { status: 'reused' };
+
+/**
+ * Refresh tokens look like "<sessionId>.<secret>" so we can find the session
+ */
+const buildRefreshToken = (sessionId: string, secret: string): string => {
+  return `${sessionId}.${secret}`;
+};
+
+const sessionExpiryDate = (): Date => {
+  return new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Start a new session (login / register) and issue its tokens
+ */
+export const createSession = async (
+  userId: string,
+  req: Request
+): Promise<AuthTokens> => {
+  const secret = randomToken(32);
+
+  const session = await Session.create({
+    user: userId,
+    refreshTokenHash: hashToken(secret),
+    userAgent: req.headers['user-agent'] || '',
+    ip: req.ip || '',
+    expiresAt: sessionExpiryDate(),
+  });
+
+  const sessionId = session._id.toString();
+
+  return {
+    token: generateToken(userId, sessionId),
+    refreshToken: buildRefreshToken(sessionId, secret),
+  };
+};
+
+/**
+ * Swap a refresh token for a new pair.
+ * Presenting an already-rotated token means it leaked: the whole session dies.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string
+): Promise<RefreshResult> => {
+  const [sessionId, secret] = refreshToken.split('.');
+
+  if (!sessionId || !secret || !mongoose.isValidObjectId(sessionId)) {
+    return { status: 'invalid' };
+  }
+
+  const session = await Session.findById(sessionId).select(
+    '+refreshTokenHash +previousTokenHashes'
+  );
+
+  if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    return { status: 'invalid' };
+  }
+
+  const presentedHash = hashToken(secret);
+
+  if (session.previousTokenHashes.includes(presentedHash)) {
+    await revokeSession(sessionId, 'reuse');
+    return { status: 'reused' };
+  }
+
+  if (session.refreshTokenHash !== presentedHash) {
+    return { status: 'invalid' };
+  }
+
+  const newSecret = randomToken(32);
+
+  // Conditional update: a concurrent rotation with the same token loses
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refreshTokenHash: presentedHash, revokedAt: null },
+    {
+      $set: { refreshTokenHash: hashToken(newSecret), lastUsedAt: new Date() },
+      $push: { previousTokenHashes: presentedHash },
+    }
+  );
+
+  if (!rotated) {
+    await revokeSession(sessionId, 'reuse');
+    return { status: 'reused' };
+  }
+
+  const userId = session.user.toString();
+
+  return {
+    status: 'ok',
+    userId,
+    tokens: {
+      token: generateToken(userId, sessionId),
+      refreshToken: buildRefreshToken(sessionId, newSecret),
+    },
+  };
+};
+
+/**
+ * Revoke a single session
+ */
+export const revokeSession = async (
+  sessionId: string,
+  reason: SessionRevokeReason
+): Promise<void> => {
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+};
+
+/**
+ * Revoke every session of a user, optionally keeping one (the current device)
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> => {
+  const filter: Record<string, any> = { user: userId, revokedAt: null };
+
+  if (exceptSessionId) filter._id = { $ne: exceptSessionId };
+
+  const result = await Session.updateMany(filter, {
+    revokedAt: new Date(),
+    revokedReason: reason,
+  });
+
+  return result.modifiedCount;
+};
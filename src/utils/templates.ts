@@ -0,0 +1,144 @@
+import mongoose from 'mongoose';
+import Template, { ITemplateItem } from '../models/Template';
+import { IItem, ItemDocument, NewItem, OccasionType } from '../models/Wishlist';
+import { SYSTEM_TEMPLATES, SYSTEM_TEMPLATE_PREFIX } from '../config/templates';
+import { sortedItems } from './wishlistView';
+import { DEFAULT_CURRENCY } from '../config/currencies';
+
+/**
+ * A system or user template in one shape
+ */
+export interface TemplateView {
+  _id: string;
+  source: 'system' | 'user';
+  name: string;
+  description: string;
+  type: 'private' | 'collaborative';
+  occasionType: OccasionType | null;
+  items: ITemplateItem[];
+  createdAt: Date | null;
+}
+
+const fromDocument = (template: any): TemplateView => ({
+  _id: template._id.toString(),
+  source: 'user',
+  name: template.name,
+  description: template.description,
+  type: template.type,
+  occasionType: template.occasionType,
+  items: template.toObject().items,
+  createdAt: template.createdAt,
+});
+
+/**
+ * System templates leave price and currency open; fill in the item defaults
+ */
+const systemTemplateView = (
+  template: (typeof SYSTEM_TEMPLATES)[number],
+  currency: string
+): TemplateView => ({
+  _id: template.key,
+  source: 'system',
+  name: template.name,
+  description: template.description,
+  type: template.type,
+  occasionType: template.occasionType,
+  items: template.items.map((item, position) => ({
+    name: item.name!,
+    description: item.description ?? '',
+    price: item.price ?? null,
+    currency: item.currency ?? currency,
+    url: item.url ?? '',
+    imageUrl: item.imageUrl ?? '',
+    quantity: item.quantity === undefined ? 1 : item.quantity,
+    priority: item.priority ?? 'normal',
+    position,
+  })),
+  createdAt: null,
+});
+
+/**
+ * Every template a user can use: the system ones, then their own (newest first)
+ */
+export const listTemplates = async (
+  userId: string,
+  currency: string = DEFAULT_CURRENCY
+): Promise<TemplateView[]> => {
+  const own = await Template.find({ owner: userId }).sort({ createdAt: -1 });
+
+  return [
+    ...SYSTEM_TEMPLATES.map((template) => systemTemplateView(template, currency)),
+    ...own.map(fromDocument),
+  ];
+};
+
+/**
+ * Find a template by ID: "system-..." keys or one of the user's own
+ */
+export const findTemplate = async (
+  templateId: string,
+  userId: string,
+  currency: string = DEFAULT_CURRENCY
+): Promise<TemplateView | null> => {
+  if (templateId.startsWith(SYSTEM_TEMPLATE_PREFIX)) {
+    const template = SYSTEM_TEMPLATES.find((t) => t.key === templateId);
+    return template ? systemTemplateView(template, currency) : null;
+  }
+
+  if (!mongoose.isValidObjectId(templateId)) return null;
+
+  const template = await Template.findOne({ _id: templateId, owner: userId });
+
+  return template ? fromDocument(template) : null;
+};
+
+/**
+ * Listing entry for a template (items left out)
+ */
+export const templateSummary = (template: TemplateView) => {
+  const { items, ...summary } = template;
+
+  return { ...summary, itemCount: items.length };
+};
+
+/**
+ * Items of a wishlist as template items, in list order
+ */
+export const templateItemsFrom = (items: IItem[]): ITemplateItem[] => {
+  return sortedItems(items).map((item, position) => ({
+    name: item.name,
+    description: item.description,
+    price: item.price,
+    currency: item.currency,
+    url: item.url,
+    imageUrl: item.imageUrl,
+    quantity: item.quantity,
+    priority: item.priority,
+    position,
+  }));
+};
+
+/**
+ * Copy of an item for a cloned wishlist: details carry over, claims, pledges
+ * and personal price alerts don't. Price history only stays with the same owner.
+ */
+export const clonedItem = (
+  item: ItemDocument,
+  addedBy: mongoose.Types.ObjectId,
+  position: number,
+  keepPriceHistory: boolean
+): NewItem => {
+  const { _id, groupGift, ...details } = item.toObject();
+
+  return {
+    ...details,
+    position,
+    priceHistory: keepPriceHistory ? details.priceHistory : [],
+    priceWatches: [],
+    fulfilments: [],
+    fulfilledQuantity: 0,
+    addedBy,
+    version: 0,
+    createdAt: new Date(),
+  };
+};
@@ -0,0 +1,15 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a random URL-safe token
+ */
+export const randomToken = (bytes: number = 24): string => {
+  return crypto.randomBytes(bytes).toString('base64url');
+};
+
+/**
+ * Hash a token for storage (we never keep raw tokens in the database)
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
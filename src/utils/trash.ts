@@ -0,0 +1,31 @@
+import mongoose from 'mongoose';
+import { IItem, ItemDocument } from '../models/Wishlist';
+import { addDays } from './occasions';
+
+/**
+ * Days a deleted wishlist or item stays in the trash before it is purged
+ */
+export const trashRetentionDays = (): number => Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+/**
+ * When something deleted at this time will be purged for good
+ */
+export const purgeDate = (deletedAt: Date): Date => addDays(deletedAt, trashRetentionDays());
+
+/**
+ * The copy of an item that goes into the trash when it is deleted
+ */
+export const trashedCopy = (item: ItemDocument, userId: string): IItem => ({
+  ...item.toObject(),
+  deletedAt: new Date(),
+  deletedBy: new mongoose.Types.ObjectId(userId),
+});
+
+/**
+ * Copy of a trashed item to put back at a position (its old one may be taken by now)
+ */
+export const restoredCopy = (item: ItemDocument, position: number): IItem => {
+  const { deletedAt, deletedBy, ...restored } = item.toObject();
+
+  return { ...restored, position };
+};
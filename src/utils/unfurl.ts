@@ -0,0 +1,258 @@
+import { Fetcher, FetchError, createHttpFetcher } from './safeFetch';
+
+/**
+ * Product details found on a page
+ */
+export interface UrlMetadata {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  price: number | null;
+  currency: string | null;
+  siteName: string | null;
+  fetchedAt: Date;
+}
+
+export interface UnfurlerOptions {
+  fetcher?: Fetcher;
+  cacheTtlMs?: number;
+  cacheMaxEntries?: number;
+}
+
+// ==========================================
+// PARSING
+// ==========================================
+
+/**
+ * Decode the few HTML entities that show up in meta tags
+ */
+const decodeEntities = (text: string): string => {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Collect <meta property|name="..." content="..."> pairs (first one wins)
+ */
+const parseMetaTags = (html: string): Record<string, string> => {
+  const tags: Record<string, string> = {};
+  const metaPattern = /<meta\s+[^>]*>/gi;
+  const attrPattern = /([a-zA-Z:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+  for (const [tag] of html.matchAll(metaPattern)) {
+    const attrs: Record<string, string> = {};
+
+    for (const match of tag.matchAll(attrPattern)) {
+      attrs[match[1].toLowerCase()] = match[3] ?? match[4] ?? '';
+    }
+
+    const key = (attrs.property || attrs.name || attrs.itemprop || '').toLowerCase();
+
+    if (key && attrs.content !== undefined && tags[key] === undefined) {
+      tags[key] = decodeEntities(attrs.content.trim());
+    }
+  }
+
+  return tags;
+};
+
+/**
+ * Find the first schema.org Product in the page's JSON-LD blocks
+ */
+const parseJsonLdProduct = (html: string): any | null => {
+  const scriptPattern =
+    /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+  const findProduct = (node: any): any | null => {
+    if (!node || typeof node !== 'object') return null;
+    if (Array.isArray(node)) {
+      for (const child of node) {
+        const found = findProduct(child);
+        if (found) return found;
+      }
+      return null;
+    }
+
+    const type = node['@type'];
+    if (type === 'Product' || (Array.isArray(type) && type.includes('Product'))) {
+      return node;
+    }
+
+    return findProduct(node['@graph']);
+  };
+
+  for (const [, json] of html.matchAll(scriptPattern)) {
+    try {
+      const product = findProduct(JSON.parse(json.trim()));
+      if (product) return product;
+    } catch {
+      // Broken JSON-LD is common - just skip it
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Read a price like "199.99" or "$1,299" (text without digits is no price, not 0)
+ */
+const toPrice = (value: unknown): number | null => {
+  if (value === undefined || value === null) return null;
+
+  const digits = String(value).replace(/[^0-9.]/g, '');
+  if (!/\d/.test(digits)) return null;
+
+  const price = Number(digits);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+/**
+ * Resolve a (possibly relative) link against the page, null if it's malformed
+ */
+const resolveUrl = (link: string, pageUrl: string): string | null => {
+  try {
+    return new URL(link, pageUrl).toString();
+  } catch {
+    return null;
+  }
+};
+
+const firstString = (...values: unknown[]): string | null => {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (Array.isArray(value) && typeof value[0] === 'string') return value[0];
+    if (value && typeof value === 'object' && 'url' in value && typeof value.url === 'string') {
+      return value.url;
+    }
+  }
+  return null;
+};
+
+/**
+ * Extract metadata from HTML: JSON-LD first, then OpenGraph, then Twitter cards
+ */
+export const parseMetadata = (html: string, pageUrl: string): UrlMetadata => {
+  const meta = parseMetaTags(html);
+  const product = parseJsonLdProduct(html);
+  const offer = Array.isArray(product?.offers) ? product.offers[0] : product?.offers;
+  const titleTag = html.match(/<title[^>]*>([^<]*)<\/title>/i);
+
+  const image = firstString(
+    product?.image,
+    meta['og:image'],
+    meta['og:image:url'],
+    meta['twitter:image'],
+    meta['twitter:image:src']
+  );
+
+  return {
+    url: pageUrl,
+    title: firstString(
+      product?.name,
+      meta['og:title'],
+      meta['twitter:title'],
+      titleTag ? decodeEntities(titleTag[1]) : null
+    ),
+    description: firstString(
+      product?.description,
+      meta['og:description'],
+      meta['twitter:description'],
+      meta['description']
+    ),
+    // Relative image paths are resolved against the page
+    image: image ? resolveUrl(image, pageUrl) : null,
+    price: toPrice(
+      offer?.price ??
+        offer?.lowPrice ??
+        meta['product:price:amount'] ??
+        meta['og:price:amount'] ??
+        // Twitter's data fields are generic (often the author), so only when labelled a price
+        (/price/i.test(meta['twitter:label1'] ?? '') ? meta['twitter:data1'] : undefined)
+    ),
+    currency: firstString(
+      offer?.priceCurrency,
+      meta['product:price:currency'],
+      meta['og:price:currency']
+    )?.toUpperCase() ?? null,
+    siteName: firstString(meta['og:site_name'], meta['twitter:site']),
+    fetchedAt: new Date(),
+  };
+};
+
+// ==========================================
+// UNFURLER
+// ==========================================
+
+/**
+ * Create an unfurler with its own fetcher and cache
+ */
+export const createUnfurler = (options: UnfurlerOptions = {}) => {
+  const fetcher = options.fetcher ?? createHttpFetcher();
+  const ttlMs = options.cacheTtlMs ?? 60 * 60 * 1000;
+  const maxEntries = options.cacheMaxEntries ?? 500;
+  const cache = new Map<string, { value: UrlMetadata; expiresAt: number }>();
+
+  return async (url: string, { fresh = false } = {}): Promise<UrlMetadata> => {
+    const cached = cache.get(url);
+
+    if (!fresh && cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const page = await fetcher(url);
+
+    if (page.status >= 400) {
+      throw new FetchError(`Page responded with ${page.status}`);
+    }
+
+    if (!/html/i.test(page.contentType)) {
+      throw new FetchError(`Not an HTML page (${page.contentType || 'unknown type'})`);
+    }
+
+    const value = parseMetadata(page.body, page.url);
+
+    // Oldest entry goes first when the cache is full (Map keeps insertion order)
+    cache.delete(url);
+    if (cache.size >= maxEntries) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    cache.set(url, { value, expiresAt: Date.now() + ttlMs });
+
+    return value;
+  };
+};
+
+export type Unfurler = ReturnType<typeof createUnfurler>;
+
+let unfurler: Unfurler | null = null;
+
+/**
+ * Replace the shared unfurler (e.g. one pointed at a local fixture server)
+ */
+export const setUnfurler = (customUnfurler: Unfurler): void => {
+  unfurler = customUnfurler;
+};
+
+/**
+ * Fetch and parse a product page using the shared unfurler
+ */
+export const unfurlUrl = (url: string, options?: { fresh?: boolean }): Promise<UrlMetadata> => {
+  if (!unfurler) {
+    unfurler = createUnfurler({
+      fetcher: createHttpFetcher({
+        timeoutMs: Number(process.env.UNFURL_TIMEOUT_MS) || 5000,
+        maxBytes: Number(process.env.UNFURL_MAX_BYTES) || 1024 * 1024,
+      }),
+      cacheTtlMs: (Number(process.env.UNFURL_CACHE_TTL_MINUTES) || 60) * 60 * 1000,
+    });
+  }
+
+  return unfurler(url, options);
+};
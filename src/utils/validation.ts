@@ -0,0 +1,333 @@
+import mongoose from 'mongoose';
+
+/**
+ * The part of a request a value came from
+ */
+export type RequestPart = 'params' | 'query' | 'body';
+
+/**
+ * One problem with one field of a request
+ */
+export interface FieldError {
+  location: RequestPart;
+  field: string; // dotted path, e.g. "occasion.date" or "itemIds.2"
+  message: string;
+}
+
+/**
+ * Where a value is being checked; errors are collected rather than thrown
+ */
+interface ParseContext {
+  location: RequestPart;
+  errors: FieldError[];
+}
+
+// Returned by a schema that rejected its value
+const INVALID = Symbol('invalid');
+
+/**
+ * A declarative check for one value. parse returns the value normalised
+ * (trimmed, lower-cased, coerced) or INVALID after recording the error.
+ */
+export interface Schema<T> {
+  parse: (value: unknown, path: string, context: ParseContext) => T | typeof INVALID;
+  isOptional?: boolean;
+}
+
+/**
+ * The type of what a schema accepts, e.g. Infer<typeof registerBody>
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { isOptional: true } ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectOf<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>;
+  }
+>;
+
+/**
+ * Record an error and reject the value
+ */
+const fail = (context: ParseContext, path: string, message: string): typeof INVALID => {
+  context.errors.push({ location: context.location, field: path, message: `${path} ${message}` });
+  return INVALID;
+};
+
+// Query strings and route params are always text, so numbers and booleans are read from it
+const isTextPart = (context: ParseContext): boolean => context.location !== 'body';
+
+// ==========================================
+// SCALARS
+// ==========================================
+
+interface StringOptions {
+  min?: number;
+  max?: number;
+  trim?: boolean; // default true (passwords and raw files turn it off)
+  lowercase?: boolean;
+  uppercase?: boolean;
+  pattern?: RegExp;
+  oneOf?: readonly string[];
+  message?: string; // replaces the pattern / oneOf message
+}
+
+const string = (options: StringOptions = {}): Schema<string> => ({
+  parse: (value, path, context) => {
+    if (typeof value !== 'string') return fail(context, path, 'must be text');
+
+    let text = options.trim === false ? value : value.trim();
+
+    if (options.lowercase) text = text.toLowerCase();
+    if (options.uppercase) text = text.toUpperCase();
+
+    if (options.min !== undefined && text.length < options.min) {
+      return fail(
+        context,
+        path,
+        options.min === 1 ? 'is required' : `must be at least ${options.min} characters`
+      );
+    }
+
+    if (options.max !== undefined && text.length > options.max) {
+      return fail(context, path, `cannot exceed ${options.max} characters`);
+    }
+
+    if (options.pattern && !options.pattern.test(text)) {
+      return fail(context, path, options.message || 'is not in the right format');
+    }
+
+    if (options.oneOf && !options.oneOf.includes(text)) {
+      return fail(context, path, options.message || `must be one of: ${options.oneOf.join(', ')}`);
+    }
+
+    return text;
+  },
+});
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+const number = (options: NumberOptions = {}): Schema<number> => ({
+  parse: (value, path, context) => {
+    const parsed =
+      isTextPart(context) && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      return fail(context, path, 'must be a number');
+    }
+
+    if (options.integer && !Number.isInteger(parsed)) {
+      return fail(context, path, 'must be a whole number');
+    }
+
+    if (options.min !== undefined && parsed < options.min) {
+      return fail(context, path, `must be at least ${options.min}`);
+    }
+
+    if (options.max !== undefined && parsed > options.max) {
+      return fail(context, path, `cannot exceed ${options.max}`);
+    }
+
+    return parsed;
+  },
+});
+
+const boolean = (): Schema<boolean> => ({
+  parse: (value, path, context) => {
+    if (typeof value === 'boolean') return value;
+
+    if (isTextPart(context) && (value === 'true' || value === 'false')) return value === 'true';
+
+    return fail(context, path, 'must be true or false');
+  },
+});
+
+/**
+ * One of a fixed set of values (enums shared with the models)
+ */
+const oneOf = <T extends string>(values: readonly T[], message?: string): Schema<T> => ({
+  parse: (value, path, context) => {
+    if (typeof value === 'string' && values.includes(value as T)) return value as T;
+
+    return fail(context, path, message || `must be one of: ${values.join(', ')}`);
+  },
+});
+
+const objectId = (): Schema<string> => ({
+  parse: (value, path, context) => {
+    if (typeof value === 'string' && mongoose.isValidObjectId(value)) return value;
+
+    return fail(context, path, 'must be a valid ID');
+  },
+});
+
+/**
+ * A date given as an ISO string (or a timestamp)
+ */
+const date = (): Schema<Date> => ({
+  parse: (value, path, context) => {
+    const parsed =
+      typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+
+    if (!parsed || value === '' || isNaN(parsed.getTime())) {
+      return fail(context, path, 'must be a date like 2025-12-24');
+    }
+
+    return parsed;
+  },
+});
+
+/**
+ * A value read by a function of its own, which returns null for anything it can't read
+ */
+const custom = <T>(read: (value: unknown) => T | null, message: string): Schema<T> => ({
+  parse: (value, path, context) => {
+    const result = read(value);
+
+    return result === null ? fail(context, path, message) : result;
+  },
+});
+
+/**
+ * Anything at all (for payloads checked further down, like import files)
+ */
+const any = (): Schema<any> => ({
+  parse: (value) => value,
+});
+
+// ==========================================
+// COMPOUND
+// ==========================================
+
+interface ArrayOptions {
+  min?: number;
+  max?: number;
+  unique?: boolean;
+}
+
+const array = <T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> => ({
+  parse: (value, path, context) => {
+    if (!Array.isArray(value)) return fail(context, path, 'must be a list');
+
+    if (options.min !== undefined && value.length < options.min) {
+      return fail(context, path, options.min === 1 ? 'cannot be empty' : `needs at least ${options.min} entries`);
+    }
+
+    if (options.max !== undefined && value.length > options.max) {
+      return fail(context, path, `cannot have more than ${options.max} entries`);
+    }
+
+    const errorsBefore = context.errors.length;
+    const parsed = value.map((entry, index) => item.parse(entry, `${path}.${index}`, context));
+
+    if (context.errors.length > errorsBefore) return INVALID;
+
+    if (options.unique && new Set(parsed.map(String)).size !== parsed.length) {
+      return fail(context, path, 'contains duplicates');
+    }
+
+    return parsed as T[];
+  },
+});
+
+/**
+ * An object with known fields. Fields not in the shape are dropped,
+ * so handlers only ever see what was declared.
+ */
+const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+  parse: (value, path, context) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return fail(context, path || context.location, 'must be an object');
+    }
+
+    const errorsBefore = context.errors.length;
+    const parsed: Record<string, any> = {};
+
+    Object.entries(shape).forEach(([key, schema]) => {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const raw = (value as Record<string, unknown>)[key];
+
+      if (raw === undefined) {
+        if (!schema.isOptional) fail(context, fieldPath, 'is required');
+        return;
+      }
+
+      const result = schema.parse(raw, fieldPath, context);
+
+      if (result !== INVALID && result !== undefined) parsed[key] = result;
+    });
+
+    return context.errors.length > errorsBefore ? INVALID : (parsed as ObjectOf<S>);
+  },
+});
+
+/**
+ * The field may be left out
+ */
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> & { isOptional: true } => ({
+  parse: (value, path, context) => (value === undefined ? undefined : schema.parse(value, path, context)),
+  isOptional: true,
+});
+
+/**
+ * The field may be null (e.g. "any number" quantities, clearing an occasion)
+ */
+const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  parse: (value, path, context) => (value === null ? null : schema.parse(value, path, context)),
+  isOptional: schema.isOptional,
+});
+
+/**
+ * The first schema that accepts the value wins; otherwise the last one's errors are reported
+ */
+const either = <A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> => ({
+  parse: (value, path, context) => {
+    const result = first.parse(value, path, { location: context.location, errors: [] });
+
+    return result !== INVALID ? result : second.parse(value, path, context);
+  },
+});
+
+/**
+ * Schema builders, e.g. v.object({ name: v.string({ min: 1, max: 100 }) })
+ */
+export const v = {
+  string,
+  number,
+  boolean,
+  oneOf,
+  objectId,
+  date,
+  custom,
+  any,
+  array,
+  object,
+  optional,
+  nullable,
+  either,
+};
+
+/**
+ * Check one part of a request, adding any problems to errors
+ */
+export const parseRequestPart = <T>(
+  schema: Schema<T>,
+  value: unknown,
+  location: RequestPart,
+  errors: FieldError[]
+): T | undefined => {
+  const result = schema.parse(value, '', { location, errors });
+
+  return result === INVALID ? undefined : result;
+};
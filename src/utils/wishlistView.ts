@@ -0,0 +1,209 @@
+import { IWishlist } from '../models/Wishlist';
+
+/**
+ * Item fields that would spoil the surprise if the owner saw them
+ */
+export const SURPRISE_FIELDS = [
+  'isPurchased',
+  'fulfilments',
+  'fulfilledQuantity',
+  'remainingQuantity',
+  'purchasedQuantity',
+  'groupGift',
+];
+
+/**
+ * Get the id of a ref that may or may not be populated
+ */
+export const refId = (ref: any): string => {
+  if (!ref) return '';
+  return (ref._id ?? ref).toString();
+};
+
+/**
+ * Username of a ref populated with it (undefined if it wasn't)
+ */
+export const populatedUsername = (ref: unknown): string | undefined => {
+  return ref && typeof ref === 'object' && 'username' in ref && typeof ref.username === 'string'
+    ? ref.username
+    : undefined;
+};
+
+/**
+ * Items in their manual order (ties keep insertion order)
+ */
+export const sortedItems = <T extends { position?: number }>(items: T[]): T[] => {
+  return [...items].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+};
+
+/**
+ * Position for an item appended to the end of a list
+ */
+export const nextPosition = (items: { position?: number }[]): number => {
+  return items.reduce((max, item) => Math.max(max, (item.position ?? 0) + 1), 0);
+};
+
+/**
+ * Plain copy of a (sub)document
+ */
+const toPlain = (doc: any): any => {
+  return typeof doc?.toObject === 'function' ? doc.toObject() : { ...doc };
+};
+
+/**
+ * Units of an item still up for grabs (null = any number)
+ */
+export const remainingQuantity = (item: any): number | null => {
+  if (item.quantity === null || item.quantity === undefined) return null;
+
+  return Math.max(item.quantity - (item.fulfilledQuantity || 0), 0);
+};
+
+/**
+ * Units givers have marked as bought
+ */
+const purchasedQuantity = (item: any): number => {
+  return (item.fulfilments || [])
+    .filter((fulfilment: any) => fulfilment.purchased)
+    .reduce((sum: number, fulfilment: any) => sum + fulfilment.quantity, 0);
+};
+
+/**
+ * Every wanted unit has been bought (never true for "any number" items)
+ */
+export const isItemPurchased = (item: any): boolean => {
+  return item.quantity !== null && item.quantity !== undefined && purchasedQuantity(item) >= item.quantity;
+};
+
+/**
+ * Add the totals givers need to coordinate (givers' view only)
+ */
+const withFulfilmentTotals = (item: any): any => {
+  item.remainingQuantity = remainingQuantity(item);
+  item.purchasedQuantity = purchasedQuantity(item);
+  item.isPurchased = isItemPurchased(item);
+
+  if (item.groupGift) {
+    item.groupGift = { ...item.groupGift, ...poolSummary(item) };
+  }
+
+  return item;
+};
+
+/**
+ * Funding summary of an item's group gift
+ */
+export const poolSummary = (item: any) => {
+  const pool = item.groupGift || {};
+  const total = pool.total || 0;
+  const target = item.price ?? null;
+
+  return {
+    target,
+    currency: item.currency,
+    total,
+    remaining: target === null ? null : Math.max(Math.round((target - total) * 100) / 100, 0),
+    fundedPercent: target ? Math.min(Math.round((total / target) * 100), 100) : null,
+    status: pool.lockedAt ? 'locked' : pool.fundedAt ? 'funded' : 'open',
+  };
+};
+
+/**
+ * Strip reservation info from a single item
+ */
+export const redactItem = (item: any): any => {
+  const plain = toPlain(item);
+
+  SURPRISE_FIELDS.forEach((field) => delete plain[field]);
+
+  return plain;
+};
+
+/**
+ * Price watches are personal: keep only the viewer's own
+ */
+const ownWatchesOnly = (item: any, viewerId?: string): any => {
+  const plain = toPlain(item);
+
+  plain.priceWatches = (plain.priceWatches || []).filter(
+    (watch: any) => refId(watch.user) === viewerId
+  );
+
+  return plain;
+};
+
+/**
+ * Build the view of a wishlist for the given user.
+ * The owner gets a redacted copy without claims; givers see everything.
+ */
+export const wishlistForViewer = (
+  wishlist: IWishlist,
+  viewerId?: string
+): any => {
+  const plain: any = wishlist.toObject();
+
+  // The trash has its own endpoint
+  delete plain.trashedItems;
+
+  plain.items = sortedItems(plain.items).map((item: any) => ownWatchesOnly(item, viewerId));
+
+  if (refId(plain.owner) !== viewerId) {
+    delete plain.shareToken;
+    plain.items = plain.items.map(withFulfilmentTotals);
+    return plain;
+  }
+
+  plain.items = plain.items.map(redactItem);
+
+  return plain;
+};
+
+/**
+ * Build the view of a single item for the given user
+ */
+export const itemForViewer = (
+  wishlist: Pick<IWishlist, 'owner'> | { owner: string },
+  item: any,
+  viewerId?: string
+): any => {
+  const plain = ownWatchesOnly(item, viewerId);
+
+  if (refId(wishlist.owner) !== viewerId) {
+    return withFulfilmentTotals(plain);
+  }
+
+  return redactItem(plain);
+};
+
+/**
+ * The fields of an item anyone who can see the list may see
+ */
+export const sharedItemView = (item: any): any => ({
+  _id: item._id,
+  name: item.name,
+  description: item.description,
+  price: item.price,
+  currency: item.currency,
+  quantity: item.quantity,
+  priority: item.priority,
+  url: item.url,
+  createdAt: item.createdAt,
+});
+
+/**
+ * Build the read-only view served through a share link.
+ * No emails, no collaborator ids, no claims.
+ */
+export const sharedWishlistView = (wishlist: IWishlist): any => {
+  const plain: any = wishlist.toObject();
+
+  return {
+    _id: plain._id,
+    name: plain.name,
+    description: plain.description,
+    visibility: plain.visibility,
+    owner: { username: plain.owner?.username },
+    items: sortedItems<any>(plain.items).map(sharedItemView),
+    updatedAt: plain.updatedAt,
+  };
+};
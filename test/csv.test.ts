@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toCsv, parseCsv, restoreCell } from '../src/utils/csv';
+
+test('reads quoted fields, "" escapes, CRLF and a byte order mark, skipping blank lines', () => {
+  const text = '\uFEFFname,note\r\n"Lamp, brass","says ""hi""\ntwice"\r\n\r\nMug,\n';
+
+  assert.deepEqual(parseCsv(text), [
+    ['name', 'note'],
+    ['Lamp, brass', 'says "hi"\ntwice'],
+    ['Mug', ''],
+  ]);
+
+  assert.throws(() => parseCsv('name\n"open'), /unterminated quoted field/);
+});
+
+test('formula-like text is defused on export and restored exactly on import', () => {
+  const cells = ['=SUM(A1)', '+1', '-5', '@me', "'=already quoted", "it's fine", 'plain'];
+
+  const [, row] = parseCsv(toCsv(['a', 'b', 'c', 'd', 'e', 'f', 'g'], [cells]));
+
+  assert.deepEqual(row.slice(0, 5), ["'=SUM(A1)", "'+1", "'-5", "'@me", "''=already quoted"]);
+  assert.deepEqual(row.map(restoreCell), cells);
+});
+
+test('numbers, dates and empty values are written as they are', () => {
+  const date = new Date('2025-12-24T00:00:00.000Z');
+
+  assert.equal(toCsv(['n', 'd', 'x'], [[-5, date, null]]), 'n,d,x\r\n-5,2025-12-24T00:00:00.000Z,\r\n');
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { nextOccurrence } from '../src/utils/occasions';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+test('a one-off occasion happens once, including on the day itself', () => {
+  const occasion = { date: day('2025-12-24'), recurrence: 'none' as const };
+
+  assert.deepEqual(nextOccurrence(occasion, day('2025-06-01')), day('2025-12-24'));
+  assert.deepEqual(nextOccurrence(occasion, new Date('2025-12-24T23:59:00.000Z')), day('2025-12-24'));
+  assert.equal(nextOccurrence(occasion, day('2025-12-25')), null);
+});
+
+test('a yearly occasion comes round this year or next', () => {
+  const birthday = { date: day('1990-03-15'), recurrence: 'yearly' as const };
+
+  assert.deepEqual(nextOccurrence(birthday, day('2025-03-15')), day('2025-03-15'));
+  assert.deepEqual(nextOccurrence(birthday, day('2025-03-16')), day('2026-03-15'));
+});
+
+test('a Feb 29 occasion falls on Feb 28 outside leap years', () => {
+  const leapDay = { date: day('2024-02-29'), recurrence: 'yearly' as const };
+
+  assert.deepEqual(nextOccurrence(leapDay, day('2025-01-01')), day('2025-02-28'));
+  assert.deepEqual(nextOccurrence(leapDay, day('2027-03-01')), day('2028-02-29'));
+});
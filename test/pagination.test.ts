@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { paginateArray, listQueryFrom, decodeCursor, ListQueryOptions } from '../src/utils/pagination';
+
+const OPTIONS: ListQueryOptions = { sortFields: ['price', 'addedAt'], defaultSort: 'price' };
+
+const row = (name: string, price: number | null, addedAt: string) => ({
+  _id: new mongoose.Types.ObjectId(),
+  name,
+  price,
+  addedAt: new Date(addedAt),
+});
+
+const rows = [
+  row('Lamp', 40, '2025-01-03'),
+  row('Mug', null, '2025-01-01'),
+  row('Book', 15, '2025-01-02'),
+  row('Pen', 15, '2025-01-05'),
+  row('Desk', 120, '2025-01-04'),
+];
+
+/**
+ * Follow nextCursor until the last page, collecting each page's names
+ */
+const walk = (sort: string, limit: number): string[][] => {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+
+  do {
+    const listQuery = listQueryFrom(
+      { sort, limit, ...(cursor && { cursor: decodeCursor(cursor)! }) },
+      OPTIONS
+    );
+    const { page, pageInfo } = paginateArray(rows, listQuery);
+
+    assert.equal(pageInfo.total, rows.length);
+    assert.equal(pageInfo.sort, sort);
+    pages.push(page.map(({ name }) => name));
+    cursor = pageInfo.nextCursor;
+  } while (cursor);
+
+  return pages;
+};
+
+test('pages through every row once, nulls first and ties broken by id', () => {
+  const [book, pen] = [rows[2], rows[3]].sort((a, b) => (String(a._id) < String(b._id) ? -1 : 1));
+
+  assert.deepEqual(walk('price', 2), [
+    ['Mug', book.name],
+    [pen.name, 'Lamp'],
+    ['Desk'],
+  ]);
+});
+
+test('sorts descending and by dates, which survive the cursor', () => {
+  assert.deepEqual(walk('-addedAt', 3), [
+    ['Pen', 'Desk', 'Lamp'],
+    ['Book', 'Mug'],
+  ]);
+});
+
+test('the last page has no next cursor, even when it is full', () => {
+  const { page, pageInfo } = paginateArray(rows, listQueryFrom({ limit: 5 }, OPTIONS));
+
+  assert.equal(page.length, 5);
+  assert.equal(pageInfo.nextCursor, null);
+  assert.equal(pageInfo.limit, 5);
+});
+
+test('cursors only carry plain sort values', () => {
+  const id = '507f1f77bcf86cd799439011';
+  const cursor = (position: object) => Buffer.from(JSON.stringify(position)).toString('base64url');
+
+  assert.deepEqual(decodeCursor(cursor({ v: 'Bike', id })), { value: 'Bike', id });
+  assert.deepEqual(decodeCursor(cursor({ v: 12.5, id })), { value: 12.5, id });
+  assert.deepEqual(decodeCursor(cursor({ v: null, id })), { value: null, id });
+  assert.deepEqual(decodeCursor(cursor({ v: { date: '2025-01-02T00:00:00.000Z' }, id })), {
+    value: new Date('2025-01-02T00:00:00.000Z'),
+    id,
+  });
+
+  [
+    { v: { $ne: null }, id },
+    { v: { date: 'someday' }, id },
+    { v: [1], id },
+    { v: true, id },
+    { v: 'Bike', id: { $gt: '' } },
+    { v: 'Bike' },
+  ].forEach((position) => assert.equal(decodeCursor(cursor(position)), null, JSON.stringify(position)));
+
+  assert.equal(decodeCursor('not json'), null);
+});
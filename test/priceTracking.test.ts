@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Wishlist from '../src/models/Wishlist';
+import { priceUpdate } from '../src/utils/priceTracking';
+
+const ownerId = new mongoose.Types.ObjectId();
+const giverId = new mongoose.Types.ObjectId();
+
+/**
+ * A list with one item watched by its owner (10% drop) and a giver (target price)
+ */
+const watchedItem = () => {
+  const wishlist = new Wishlist({
+    name: 'Birthday',
+    owner: ownerId,
+    items: [
+      {
+        name: 'Headphones',
+        price: null,
+        addedBy: ownerId,
+        priceWatches: [
+          { user: ownerId, dropPercent: 10 },
+          { user: giverId, targetPrice: 50 },
+        ],
+      },
+    ],
+  });
+
+  return { wishlist, item: wishlist.items[0] };
+};
+
+
+// ==========================================
+// HISTORY
+// ==========================================
+
+test('an unchanged price records nothing', () => {
+  const { wishlist, item } = watchedItem();
+
+  assert.equal(priceUpdate(wishlist, item, 'manual'), null, 'no price yet');
+
+  item.price = 100;
+  const first = priceUpdate(wishlist, item, 'manual', ownerId.toString());
+  assert.ok(first);
+  assert.equal(first.push['items.$[i].priceHistory'].price, 100);
+  assert.equal(first.push['items.$[i].priceHistory'].source, 'manual');
+  assert.equal(priceUpdate(wishlist, item, 'manual'), null);
+  assert.equal(item.priceHistory.length, 1);
+});
+
+// ==========================================
+// WATCHES
+// ==========================================
+
+test('the first price becomes the baseline without an alert', () => {
+  const { wishlist, item } = watchedItem();
+
+  item.price = 100;
+  const update = priceUpdate(wishlist, item, 'refresh')!;
+
+  assert.deepEqual(update.alerts, []);
+  assert.deepEqual(update.arrayFilters, [{ 'w0.user': ownerId }, { 'w1.user': giverId }]);
+  assert.equal(update.set['items.$[i].priceWatches.$[w0].basePrice'], 100);
+  assert.equal(update.set['items.$[i].priceWatches.$[w0].lastAlertAt'], null);
+});
+
+test('a small drop only records the price, a big one alerts and moves the baseline', () => {
+  const { wishlist, item } = watchedItem();
+  const update = (price: number) => {
+    item.price = price;
+    return priceUpdate(wishlist, item, 'refresh')!;
+  };
+
+  update(100);
+
+  const small = update(95);
+  assert.deepEqual(small.alerts, []);
+  assert.deepEqual(small.set, {}, 'no watch changed');
+  assert.deepEqual(small.arrayFilters, []);
+
+  // The giver's watch has no drop percent of its own, so the default 10% applies
+  const big = update(89);
+  assert.deepEqual(
+    big.alerts.map(({ targetUserId, surprise }) => ({ targetUserId, surprise })),
+    [
+      { targetUserId: ownerId.toString(), surprise: false },
+      { targetUserId: giverId.toString(), surprise: true },
+    ]
+  );
+  assert.deepEqual(big.alerts[0].changes, [{ field: 'price', before: 100, after: 89 }]);
+  assert.equal(big.set['items.$[i].priceWatches.$[w0].basePrice'], 89);
+  assert.ok(big.set['items.$[i].priceWatches.$[w0].lastAlertAt'] instanceof Date);
+});
+
+test('a rise moves the baseline up so later drops are measured from there', () => {
+  const { wishlist, item } = watchedItem();
+  const update = (price: number) => {
+    item.price = price;
+    return priceUpdate(wishlist, item, 'refresh')!;
+  };
+
+  update(100);
+  assert.equal(update(120).set['items.$[i].priceWatches.$[w0].basePrice'], 120);
+  assert.equal(update(110).alerts.length, 0);
+  assert.equal(update(105).alerts.length, 2, '12.5% below 120, though only 5% below 100');
+});
+
+test('a target price alerts the giver once, as a surprise, until it drops further', () => {
+  const { wishlist, item } = watchedItem();
+  const update = (price: number) => {
+    item.price = price;
+    return priceUpdate(wishlist, item, 'refresh')!;
+  };
+
+  update(60);
+
+  const hit = update(48).alerts.filter((alert) => alert.targetUserId === giverId.toString());
+  assert.equal(hit.length, 1);
+  assert.equal(hit[0].surprise, true);
+
+  const giverAlerts = (price: number) =>
+    update(price).alerts.filter((alert) => alert.targetUserId === giverId.toString());
+
+  assert.equal(giverAlerts(49).length, 0, 'still under the target, but already told');
+  assert.equal(giverAlerts(45).length, 1, 'a lower price is news');
+});
@@ -0,0 +1,150 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createHttpFetcher, isPrivateAddress, FetchError } from '../src/utils/safeFetch';
+import { createUnfurler, parseMetadata } from '../src/utils/unfurl';
+
+// ==========================================
+// FIXTURE SERVER
+// ==========================================
+
+const PRODUCT_PAGE = `<!doctype html><html><head>
+<meta property="og:title" content="Espresso Machine">
+<meta property="og:image" content="/img/espresso.jpg">
+<meta property="product:price:amount" content="199.99">
+<meta property="product:price:currency" content="EUR">
+</head><body></body></html>`;
+
+let server: http.Server;
+let port: number;
+let hits = 0;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    hits++;
+
+    switch (req.url) {
+      case '/product':
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(PRODUCT_PAGE);
+        break;
+      case '/big':
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end('x'.repeat(64 * 1024));
+        break;
+      case '/slow':
+        setTimeout(() => res.end('late'), 1000);
+        break;
+      case '/loop':
+        res.writeHead(302, { Location: '/loop' });
+        res.end();
+        break;
+      default:
+        res.writeHead(404);
+        res.end();
+    }
+  });
+
+  // Both stacks, so an address that slipped through would really connect
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+const local = createHttpFetcher({ allowPrivateAddresses: true, timeoutMs: 300, maxBytes: 16 * 1024 });
+
+// ==========================================
+// FETCHING
+// ==========================================
+
+test('fetches and unfurls a page from the fixture server', async () => {
+  const unfurl = createUnfurler({ fetcher: local });
+  const metadata = await unfurl(`http://127.0.0.1:${port}/product`);
+
+  assert.equal(metadata.title, 'Espresso Machine');
+  assert.equal(metadata.price, 199.99);
+  assert.equal(metadata.currency, 'EUR');
+  assert.equal(metadata.image, `http://127.0.0.1:${port}/img/espresso.jpg`);
+});
+
+test('reads no price from unlabelled or non-numeric card data and skips a malformed image', () => {
+  const page = (tags: string) => `<html><head>${tags}</head></html>`;
+  const url = 'https://shop.example/item';
+
+  const author = parseMetadata(
+    page(`<meta name="twitter:label1" content="Written by">
+<meta name="twitter:data1" content="Jane Doe">
+<meta property="og:image" content="http://[oops/img.jpg">`),
+    url
+  );
+  assert.equal(author.price, null);
+  assert.equal(author.image, null);
+
+  const labelled = `<meta name="twitter:label1" content="Price"><meta name="twitter:data1" content="$1,299">`;
+  assert.equal(parseMetadata(page(labelled), url).price, 1299);
+  assert.equal(
+    parseMetadata(page('<meta property="product:price:amount" content="TBA">'), url).price,
+    null
+  );
+});
+
+test('enforces the size limit, timeout and redirect limit', async () => {
+  await assert.rejects(local(`http://127.0.0.1:${port}/big`), /exceeds 16384 bytes/);
+  await assert.rejects(local(`http://127.0.0.1:${port}/slow`), /timed out/);
+  await assert.rejects(local(`http://127.0.0.1:${port}/loop`), /Too many redirects/);
+});
+
+// ==========================================
+// SSRF PROTECTION
+// ==========================================
+
+test('refuses the fixture server however its address is spelled', async () => {
+  const fetcher = createHttpFetcher({ timeoutMs: 300 });
+  const hitsBefore = hits;
+
+  const hosts = [
+    '127.0.0.1',
+    'localhost',
+    '[::1]',
+    '[::ffff:127.0.0.1]',
+    '[::ffff:7f00:1]', // what the URL parser turns the line above into
+    '[0:0:0:0:0:ffff:7f00:1]',
+    '[::127.0.0.1]',
+    '[64:ff9b::7f00:1]',
+    '[2002:7f00:1::]',
+  ];
+
+  for (const host of hosts) {
+    await assert.rejects(fetcher(`http://${host}:${port}/product`), FetchError, host);
+  }
+
+  assert.equal(hits, hitsBefore, 'no request reached the server');
+});
+
+test('tells private addresses from public ones', () => {
+  const blocked = [
+    '10.0.0.1',
+    '169.254.169.254',
+    '::',
+    '::1',
+    '::ffff:10.0.0.1',
+    '::ffff:a00:1',
+    '::ffff:0:a9fe:a9fe',
+    '64:ff9b::c0a8:101',
+    '64:ff9b:1::1',
+    '2002:a9fe:a9fe::1',
+    '2001:0:4136:e378::1', // Teredo
+    'fd12:3456::1',
+    'fe80::1%eth0',
+    'ff02::1',
+  ];
+  const allowed = ['8.8.8.8', '::ffff:8.8.8.8', '::ffff:808:808', '64:ff9b::808:808', '2002:808:808::1', '2606:4700::1111'];
+
+  blocked.forEach((ip) => assert.equal(isPrivateAddress(ip), true, ip));
+  allowed.forEach((ip) => assert.equal(isPrivateAddress(ip), false, ip));
+});
@@ -0,0 +1,175 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { v, parseRequestPart, FieldError, RequestPart, Schema } from '../src/utils/validation';
+import { validate } from '../src/middleware/validate';
+import { listQueryFields } from '../src/schemas/common';
+import { wishlistQuery } from '../src/schemas/wishlist';
+
+/**
+ * Run a schema over a value the way the middleware does
+ */
+const check = <T>(schema: Schema<T>, value: unknown, location: RequestPart = 'body') => {
+  const errors: FieldError[] = [];
+  const result = parseRequestPart(schema, value, location, errors);
+
+  return { result, errors, fields: errors.map((error) => error.field) };
+};
+
+// ==========================================
+// OBJECTS
+// ==========================================
+
+test('objects keep declared fields, drop the rest and report every missing one', () => {
+  const schema = v.object({
+    name: v.string({ min: 1 }),
+    age: v.number(),
+    note: v.optional(v.string()),
+  });
+
+  assert.deepEqual(check(schema, { name: ' Ann ', age: 30, admin: true }).result, {
+    name: 'Ann',
+    age: 30,
+  });
+
+  const { result, errors } = check(schema, {});
+  assert.equal(result, undefined);
+  assert.deepEqual(errors, [
+    { location: 'body', field: 'name', message: 'name is required' },
+    { location: 'body', field: 'age', message: 'age is required' },
+  ]);
+
+  assert.deepEqual(check(schema, [1, 2]).errors, [
+    { location: 'body', field: 'body', message: 'body must be an object' },
+  ]);
+});
+
+test('nested errors carry dotted paths', () => {
+  const schema = v.object({
+    occasion: v.object({ date: v.date() }),
+    itemIds: v.array(v.objectId(), { unique: true }),
+  });
+
+  const id = '507f1f77bcf86cd799439011';
+
+  const { fields } = check(schema, { occasion: { date: 'soon' }, itemIds: [id, 'nope'] });
+  assert.deepEqual(fields, ['occasion.date', 'itemIds.1']);
+
+  assert.deepEqual(check(schema, { occasion: { date: '2025-12-24' }, itemIds: [id, id] }).errors, [
+    { location: 'body', field: 'itemIds', message: 'itemIds contains duplicates' },
+  ]);
+});
+
+// ==========================================
+// OPTIONAL / NULLABLE / EITHER
+// ==========================================
+
+test('optional fields may be left out but not sent as null', () => {
+  const schema = v.object({ note: v.optional(v.string()) });
+
+  assert.deepEqual(check(schema, {}).result, {});
+  assert.deepEqual(check(schema, { note: null }).fields, ['note']);
+});
+
+test('nullable fields accept null; wrapped in optional they may also be left out', () => {
+  const schema = v.object({
+    price: v.optional(v.nullable(v.number({ min: 0 }))),
+    quantity: v.nullable(v.number()),
+  });
+
+  assert.deepEqual(check(schema, { quantity: null }).result, { quantity: null });
+  assert.deepEqual(check(schema, { price: null, quantity: 2 }).result, { price: null, quantity: 2 });
+  assert.deepEqual(check(schema, { price: -1, quantity: 2 }).errors, [
+    { location: 'body', field: 'price', message: 'price must be at least 0' },
+  ]);
+  assert.deepEqual(check(schema, {}).fields, ['quantity']);
+});
+
+test('either takes the first schema that accepts, else reports the second', () => {
+  const schema = v.either(v.oneOf(['me'] as const), v.objectId());
+
+  assert.equal(check(schema, 'me').result, 'me');
+  assert.equal(check(schema, '507f1f77bcf86cd799439011').result, '507f1f77bcf86cd799439011');
+
+  const { errors } = check(v.object({ addedBy: schema }), { addedBy: 'someone' });
+  assert.deepEqual(errors, [
+    { location: 'body', field: 'addedBy', message: 'addedBy must be a valid ID' },
+  ]);
+});
+
+// ==========================================
+// QUERY STRINGS
+// ==========================================
+
+test('query strings and params are read as numbers and booleans, bodies are not', () => {
+  const schema = v.object({ limit: v.number({ integer: true }), archived: v.boolean() });
+
+  const text = { limit: '20', archived: 'false' };
+
+  assert.deepEqual(check(schema, text, 'query').result, { limit: 20, archived: false });
+  assert.deepEqual(check(schema, text, 'params').result, { limit: 20, archived: false });
+  assert.deepEqual(check(schema, text, 'body').fields, ['limit', 'archived']);
+  assert.deepEqual(check(schema, { limit: '', archived: 'yes' }, 'query').fields, ['limit', 'archived']);
+  assert.deepEqual(check(schema, { limit: '2.5', archived: 'true' }, 'query').errors, [
+    { location: 'query', field: 'limit', message: 'limit must be a whole number' },
+  ]);
+});
+
+test('list queries check sort, limit and cursor per list', () => {
+  const options = { sortFields: ['name'], defaultSort: 'name', maxLimit: 50 };
+  const schema = v.object(listQueryFields(options));
+
+  assert.deepEqual(check(schema, { sort: '-name', limit: '50' }, 'query').result, {
+    sort: '-name',
+    limit: 50,
+  });
+
+  const { errors } = check(schema, { sort: 'price', limit: '51', cursor: 'garbage' }, 'query');
+  assert.deepEqual(errors, [
+    {
+      location: 'query',
+      field: 'sort',
+      message: 'sort must be one of: name (prefix with - for descending)',
+    },
+    { location: 'query', field: 'limit', message: 'limit cannot exceed 50' },
+    { location: 'query', field: 'cursor', message: 'cursor is not a valid cursor' },
+  ]);
+
+  const position = { v: 'Bike', id: '507f1f77bcf86cd799439011' };
+  const cursor = Buffer.from(JSON.stringify(position)).toString('base64url');
+  assert.deepEqual(check(schema, { cursor }, 'query').result, {
+    cursor: { value: 'Bike', id: '507f1f77bcf86cd799439011' },
+  });
+});
+
+// ==========================================
+// MIDDLEWARE
+// ==========================================
+
+test('the middleware answers 400 with every field error, or passes on normalised values', () => {
+  const middleware = validate({ query: wishlistQuery });
+  const respond = () => {
+    const res: any = { statusCode: 200, body: null };
+    res.status = (code: number) => ((res.statusCode = code), res);
+    res.json = (body: any) => ((res.body = body), res);
+    return res;
+  };
+
+  const bad: any = { query: { priority: 'urgent', limit: '500' } };
+  const badRes = respond();
+  let called = false;
+
+  middleware(bad, badRes, () => (called = true));
+
+  assert.equal(called, false);
+  assert.equal(badRes.statusCode, 400);
+  assert.deepEqual(
+    badRes.body.errors.map((error: FieldError) => error.field),
+    ['limit', 'priority']
+  );
+
+  const good: any = { query: { priority: 'high', currency: 'eur', extra: '1' } };
+  middleware(good, respond(), () => (called = true));
+
+  assert.equal(called, true);
+  assert.deepEqual(good.query, { priority: 'high', currency: 'EUR' });
+});
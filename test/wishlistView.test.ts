@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Wishlist from '../src/models/Wishlist';
+import { wishlistForViewer, itemForViewer, SURPRISE_FIELDS } from '../src/utils/wishlistView';
+
+const ownerId = new mongoose.Types.ObjectId();
+const giverId = new mongoose.Types.ObjectId();
+
+/**
+ * A list whose one item a giver has claimed, bought, pledged towards and watches
+ */
+const claimedList = () =>
+  new Wishlist({
+    name: 'Birthday',
+    owner: ownerId,
+    shareToken: 'secret-share-token',
+    items: [
+      {
+        name: 'Bike',
+        price: 300,
+        quantity: 2,
+        addedBy: ownerId,
+        fulfilments: [{ user: giverId, quantity: 2, purchased: true }],
+        fulfilledQuantity: 2,
+        groupGift: { organizer: giverId, pledges: [{ user: giverId, amount: 50 }], total: 50 },
+        priceWatches: [{ user: ownerId, dropPercent: 10 }, { user: giverId, targetPrice: 250 }],
+      },
+    ],
+  });
+
+test('the owner sees no claims, purchases or pledges, and only their own price watch', () => {
+  const view = wishlistForViewer(claimedList(), ownerId.toString());
+  const [item] = view.items;
+
+  SURPRISE_FIELDS.forEach((field) => assert.equal(field in item, false, field));
+  assert.equal(item.name, 'Bike');
+  assert.equal(item.quantity, 2);
+  assert.deepEqual(item.priceWatches.map((watch: any) => String(watch.user)), [String(ownerId)]);
+  assert.equal(view.shareToken, 'secret-share-token', 'the owner manages the share link');
+  assert.equal('trashedItems' in view, false);
+});
+
+test('givers see the totals they coordinate with, but not the share token', () => {
+  const view = wishlistForViewer(claimedList(), giverId.toString());
+  const [item] = view.items;
+
+  assert.equal(item.fulfilments.length, 1);
+  assert.equal(item.remainingQuantity, 0);
+  assert.equal(item.purchasedQuantity, 2);
+  assert.equal(item.isPurchased, true);
+  assert.equal(item.groupGift.total, 50);
+  assert.equal(item.groupGift.remaining, 250);
+  assert.equal(item.groupGift.status, 'open');
+  assert.deepEqual(item.priceWatches.map((watch: any) => String(watch.user)), [String(giverId)]);
+  assert.equal('shareToken' in view, false);
+});
+
+test('a single item is redacted the same way', () => {
+  const wishlist = claimedList();
+  const item = wishlist.items[0];
+
+  const ownerView = itemForViewer(wishlist, item, ownerId.toString());
+  SURPRISE_FIELDS.forEach((field) => assert.equal(field in ownerView, false, field));
+
+  assert.equal(itemForViewer(wishlist, item, giverId.toString()).isPurchased, true);
+});